@@ -0,0 +1,176 @@
+import { App, TFile, Notice, getAllTags } from 'obsidian';
+import * as leaflet from 'leaflet';
+
+import type { PluginSettings } from 'src/settings';
+import MapViewPlugin from 'src/main';
+import { SvelteModal } from 'src/svelte';
+import BatchGeocodingDialog from './components/BatchGeocodingDialog.svelte';
+import { GeoSearcher, type GeoSearchResult } from 'src/geosearch';
+import { FileMarker } from 'src/markers';
+import { Query } from 'src/query';
+import * as consts from 'src/consts';
+import * as utils from 'src/utils';
+
+export type GeocodingStatus =
+    'pending' | 'found' | 'ambiguous' | 'notFound' | 'failed';
+
+export interface GeocodingItem {
+    file: TFile;
+    address: string;
+    status: GeocodingStatus;
+    results: GeoSearchResult[];
+    /** The index of the result to save to the note, or -1 to leave the note as is */
+    chosen: number;
+}
+
+interface Job {
+    items: GeocodingItem[];
+    requestsPerSecond: number;
+    /** The number of items that were geocoded so far */
+    done: number;
+    running: boolean;
+    abortController: AbortController;
+}
+
+// There is a single geocoding job at a time, which keeps running (and then waits for a review) regardless of
+// whether the dialog is open
+let job: Job = $state(null);
+
+export function openBatchGeocodingDialog(plugin: MapViewPlugin) {
+    const dialog = new SvelteModal(
+        BatchGeocodingDialog,
+        plugin.app,
+        plugin,
+        plugin.settings,
+    );
+    dialog.open();
+}
+
+export function getJob() {
+    return job;
+}
+
+export function cancelJob() {
+    job?.abortController.abort();
+}
+
+/** Drop the job and its results, e.g. after they were saved */
+export function clearJob() {
+    cancelJob();
+    job = null;
+}
+
+/**
+ * Find the notes that have an address in the given front matter property but no front matter location.
+ * A query can limit the search, e.g. to a folder using 'path:'. Queries are tested on the notes as if they had
+ * a marker, so operators that relate to locations (e.g. 'near:') can't be used.
+ */
+export function findNotesToGeocode(
+    app: App,
+    settings: PluginSettings,
+    addressProperty: string,
+    queryString: string,
+): { file: TFile; address: string }[] {
+    const query = new Query(app, queryString, settings);
+    let notes: { file: TFile; address: string }[] = [];
+    for (const file of app.vault.getMarkdownFiles()) {
+        const fileCache = app.metadataCache.getFileCache(file);
+        const frontMatter = fileCache?.frontmatter;
+        const address = frontMatter?.[addressProperty];
+        if (typeof address !== 'string' || address.trim().length === 0)
+            continue;
+        if (frontMatter[settings.frontMatterKey]) continue;
+        const marker = new FileMarker(file, new leaflet.LatLng(0, 0));
+        marker.tags = getAllTags(fileCache) ?? [];
+        if (!query.testMarker(marker)) continue;
+        notes.push({ file, address: address.trim() });
+    }
+    return notes;
+}
+
+export function startJob(
+    plugin: MapViewPlugin,
+    notes: { file: TFile; address: string }[],
+    requestsPerSecond: number,
+    onFinish: () => void,
+) {
+    if (job?.running) return;
+    job = {
+        items: notes.map((note): GeocodingItem => ({
+            ...note,
+            status: 'pending',
+            results: [],
+            chosen: -1,
+        })),
+        // An empty or zero rate would turn off the rate limiting altogether
+        requestsPerSecond: Math.max(
+            requestsPerSecond || 0,
+            consts.MIN_GEOCODING_REQUESTS_PER_SECOND,
+        ),
+        done: 0,
+        running: true,
+        abortController: new AbortController(),
+    };
+    doGeocodeJob(new GeoSearcher(plugin.app, plugin.settings), onFinish);
+}
+
+async function doGeocodeJob(searcher: GeoSearcher, onFinish: () => void) {
+    const currentJob = job;
+    for (const item of currentJob.items) {
+        if (currentJob.abortController.signal.aborted) break;
+        const startTime = Date.now();
+        try {
+            const results = await searcher.search(item.address);
+            item.results = results;
+            if (results.length === 0) item.status = 'notFound';
+            else if (isAmbiguous(results)) item.status = 'ambiguous';
+            else {
+                item.status = 'found';
+                item.chosen = 0;
+            }
+        } catch (error) {
+            console.error(`Failed to geocode: ${item.address}`, error);
+            item.status = 'failed';
+        }
+        currentJob.done++;
+        const elapsedMs = Date.now() - startTime;
+        const minTimePerRequest = 1000 / currentJob.requestsPerSecond;
+        if (elapsedMs < minTimePerRequest)
+            await new Promise((resolve) =>
+                setTimeout(resolve, minTimePerRequest - elapsedMs),
+            );
+    }
+    currentJob.running = false;
+    onFinish();
+}
+
+// Results that are all close to the first one are considered the same place, e.g. a building and its street
+function isAmbiguous(results: GeoSearchResult[]) {
+    return results.some(
+        (result) =>
+            result.location.distanceTo(results[0].location) >
+            consts.BATCH_GEOCODING_SAME_PLACE_METERS,
+    );
+}
+
+/**
+ * Save the chosen locations of the job to the front matter of the notes, skipping notes that got a location
+ * since the job started.
+ * @returns The number of notes that were updated
+ */
+export async function saveChosenLocations(app: App, settings: PluginSettings) {
+    let saved = 0;
+    for (const item of job?.items ?? []) {
+        const result = item.results[item.chosen];
+        if (!result) continue;
+        const added = await utils.verifyOrAddFrontMatter(
+            app,
+            item.file,
+            settings.frontMatterKey,
+            `${result.location.lat},${result.location.lng}`,
+        );
+        if (added) saved++;
+    }
+    if (saved > 0) new Notice(`Map View: added locations to ${saved} notes`);
+    return saved;
+}
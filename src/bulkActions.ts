@@ -0,0 +1,135 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { FileMarker } from 'src/markers';
+
+/** Returns the distinct notes of the given markers */
+export function getMarkerFiles(markers: FileMarker[]): TFile[] {
+    return Array.from(new Set(markers.map((marker) => marker.file)));
+}
+
+/** Normalize a tag as entered by the user, e.g. '#trip' or 'trip', to its name without the '#' */
+export function normalizeTagName(tag: string): string {
+    return tag.trim().replace(/^#/, '');
+}
+
+function escapeRegExp(s: string) {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches a `tag:name` expression of an inline location, with the whitespace before it
+function inlineTagRegExp(tagName: string) {
+    return new RegExp(
+        `[ \\t]*tag:${escapeRegExp(tagName)}(?![\\p{L}\\p{N}_\\/\\-])`,
+        'u',
+    );
+}
+
+/**
+ * Add a tag to markers, or remove a tag from them.
+ * Inline locations get (or lose) a `tag:name` expression after their geolink, and front matter locations get the
+ * tag in (or removed from) the 'tags' property of their note.
+ * Inline locations that were edited since the map was last updated are skipped.
+ * @returns The number of markers that were changed
+ */
+export async function setMarkersTag(
+    markers: FileMarker[],
+    tag: string,
+    add: boolean,
+    app: App,
+): Promise<number> {
+    const tagName = normalizeTagName(tag);
+    if (!tagName) return 0;
+    let changed = 0;
+    for (const file of getMarkerFiles(markers)) {
+        const fileMarkers = markers.filter((marker) => marker.file === file);
+        const inlineMarkers = fileMarkers
+            .filter((marker) => marker.geolocationMatch?.groups?.link)
+            // Edit from the end of the note, so the positions of the earlier markers remain valid
+            .sort((a, b) => b.fileLocation - a.fileLocation);
+        if (inlineMarkers.length > 0)
+            await app.vault.process(file, (content) => {
+                for (const marker of inlineMarkers) {
+                    const match = marker.geolocationMatch;
+                    const start = marker.fileLocation;
+                    const end = start + match[0].length;
+                    if (content.substring(start, end) !== match[0]) continue;
+                    const link = match.groups.link;
+                    const rest = match[0].substring(link.length);
+                    const hasTag = inlineTagRegExp(tagName).test(rest);
+                    let newRest = rest;
+                    if (add && !hasTag) newRest = ` tag:${tagName}${rest}`;
+                    else if (!add && hasTag)
+                        newRest = rest.replace(inlineTagRegExp(tagName), '');
+                    if (newRest === rest) continue;
+                    content =
+                        content.substring(0, start) +
+                        link +
+                        newRest +
+                        content.substring(end);
+                    changed++;
+                }
+                return content;
+            });
+        if (inlineMarkers.length < fileMarkers.length)
+            await app.fileManager.processFrontMatter(file, (frontmatter) => {
+                let tags: string[] = Array.isArray(frontmatter.tags)
+                    ? frontmatter.tags
+                    : typeof frontmatter.tags === 'string'
+                      ? frontmatter.tags
+                            .split(/[\s,]+/)
+                            .filter((t: string) => t)
+                      : [];
+                const index = tags.findIndex(
+                    (t) => normalizeTagName(String(t)) === tagName,
+                );
+                if (add && index < 0) tags.push(tagName);
+                else if (!add && index >= 0) tags.splice(index, 1);
+                else return;
+                frontmatter.tags = tags;
+                changed++;
+            });
+    }
+    return changed;
+}
+
+/**
+ * Move the notes of the given markers into a folder, creating the folder if it doesn't exist.
+ * Links to the notes are updated according to the Obsidian settings. Notes that already have a note with the same
+ * name in the target folder are left in place.
+ * @returns The number of notes moved
+ */
+export async function moveMarkerNotesToFolder(
+    markers: FileMarker[],
+    folderPath: string,
+    app: App,
+): Promise<number> {
+    const folder = normalizePath(folderPath);
+    const existing = app.vault.getAbstractFileByPath(folder);
+    if (existing && !(existing instanceof TFolder))
+        throw new Error(`${folder} is not a folder`);
+    if (!existing) await app.vault.createFolder(folder);
+    let moved = 0;
+    for (const file of getMarkerFiles(markers)) {
+        const newPath = normalizePath(`${folder}/${file.name}`);
+        if (newPath === file.path || app.vault.getAbstractFileByPath(newPath))
+            continue;
+        await app.fileManager.renameFile(file, newPath);
+        moved++;
+    }
+    return moved;
+}
+
+/** Returns the given markers as a Markdown list of geolinks, e.g. `- [Cafe](geo:32.07,34.78)` */
+export function markersToGeolinks(markers: FileMarker[]): string {
+    return markers
+        .map(
+            (marker) =>
+                `- [${marker.extraName || marker.file.basename}](geo:${marker.location.lat},${marker.location.lng})`,
+        )
+        .join('\n');
+}
+
+/** Open the notes of the given markers, each in a new tab */
+export async function openMarkerNotes(markers: FileMarker[], app: App) {
+    for (const file of getMarkerFiles(markers))
+        await app.workspace.getLeaf('tab').openFile(file);
+}
@@ -25,20 +25,56 @@ export const UNLOCKED_MARKER = {
     icon: 'fa-up-down-left-right',
     markerColor: SEARCH_RESULT_MARKER.markerColor,
 } as leaflet.ExtraMarkers.IconOptions;
+// The front matter key in which a note can declare its own marker icon details, e.g. `mapmarker: {icon: fa-flag, color: red}`
+export const FRONT_MATTER_ICON_KEY = 'mapmarker';
 export const MAX_CLUSTER_PREVIEW_ICONS = 4;
 export const HISTORY_SAVE_ZOOM_DIFF = 2;
 
 export const LAT_LIMITS = [-90, 90];
 export const LNG_LIMITS = [-180, 180];
+// The earth radius used by Leaflet for distances
+export const EARTH_RADIUS_METERS = 6378137;
 
 export const MAX_QUERY_SUGGESTIONS = 20;
+export const DEFAULT_NEAR_QUERY_RADIUS_METERS = 1000;
 export const MAX_EXTERNAL_SEARCH_SUGGESTIONS = 5;
 export const MAX_MARKER_SUGGESTIONS = 5;
 export const MAX_ZOOM = 25;
 export const DEFAULT_MAX_TILE_ZOOM = 19;
+/** The subdomains that map sources with '{s}' in their URL are loaded from */
+export const TILE_SUBDOMAINS = ['mt0', 'mt1', 'mt2', 'mt3'];
 export const MIN_REAL_TIME_LOCATION_ZOOM = 13;
 
 export const HIGHLIGHT_CLASS_NAME = 'map-view-highlight';
+// The color of GeoJSON, GPX and KML layers that don't get a color from the marker icon rules
+export const DEFAULT_GEOJSON_COLOR = 'blue';
+export const HEATMAP_RADIUS = 25;
+export const HEATMAP_BLUR = 15;
+
+export const TIMELINE_DATE_FORMAT = 'YYYY-MM-DD';
+// When playing the timeline, the range moves through the full timeline in this number of steps
+export const TIMELINE_PLAY_STEPS = 50;
+export const TIMELINE_PLAY_INTERVAL_MS = 700;
+/** The maximum number of markers to list in the marker list of the map controls */
+export const MAX_MARKER_LIST_ITEMS = 200;
+/** The nearest markers are recalculated only when the reference point (e.g. the GPS location) moves at least this much */
+export const NEAREST_MARKERS_UPDATE_METERS = 50;
+/** A front matter property that turns on itinerary mode for the inline locations of a single note */
+export const ITINERARY_FRONT_MATTER_KEY = 'itinerary';
+export const MAX_MARKER_MOVE_HISTORY = 50;
+export const MARKER_MOVE_NOTICE_MS = 8000;
+/** How close (in pixels) a dragged marker has to get to a search result or another marker to snap to it */
+export const MARKER_SNAP_DISTANCE_PIXELS = 15;
+export const DEFAULT_REVERSE_GEOCODING_URL =
+    'https://nominatim.openstreetmap.org/reverse';
+export const MAX_REVERSE_GEOCODING_CACHE_SIZE = 2000;
+/** The front matter property that batch geocoding reads addresses from, unless changed in the dialog */
+export const DEFAULT_ADDRESS_PROPERTY = 'address';
+// Nominatim's usage policy allows an absolute maximum of 1 request per second
+export const DEFAULT_GEOCODING_REQUESTS_PER_SECOND = 1;
+export const MIN_GEOCODING_REQUESTS_PER_SECOND = 0.1;
+/** Batch geocoding results that are all within this distance of each other are considered the same place */
+export const BATCH_GEOCODING_SAME_PLACE_METERS = 1000;
 
 export const DEFAULT_EMBEDDED_HEIGHT = 300;
 export const MIN_QUICK_EMBED_ZOOM = 8;
@@ -0,0 +1,120 @@
+import * as leaflet from 'leaflet';
+import { type EdgeStyle, type EdgeStyleRule } from 'src/settings';
+import { Edge } from 'src/markers';
+import { checkTagPatternMatch } from 'src/markerIcons';
+import wildcard from 'wildcard';
+
+const ALIAS_RULE_PREFIX = 'alias:';
+// Labels of edges with arrows are moved up from the midpoint, so they don't cover the arrowhead
+const ARROW_LABEL_OFFSET_PIXELS = 14;
+
+/**
+ * Calculate the style of an edge by applying the matching edge style rules on top of the default style.
+ * Like marker icon rules, later rules override earlier ones.
+ * @param defaultColor The link color of the map state
+ */
+export function getEdgeStyle(
+    edge: Edge,
+    rules: EdgeStyleRule[],
+    defaultColor: string,
+): EdgeStyle {
+    let style: EdgeStyle = { color: defaultColor, weight: 1, arrow: false };
+    for (const rule of rules ?? []) {
+        const ruleName = rule.ruleName.trim();
+        if (!ruleName) continue;
+        const matches = ruleName.startsWith(ALIAS_RULE_PREFIX)
+            ? edge.alias != null &&
+              wildcard(
+                  ruleName.substring(ALIAS_RULE_PREFIX.length).trim(),
+                  edge.alias,
+              )
+            : checkTagPatternMatch(ruleName, edge.marker1.tags);
+        if (matches)
+            style = Object.assign(
+                {},
+                style,
+                Object.fromEntries(
+                    Object.entries(rule.style).filter(
+                        ([_, value]) => value != null && value !== '',
+                    ),
+                ),
+            );
+    }
+    return style;
+}
+
+/**
+ * Create the polyline of an edge according to its style.
+ * For edges with an arrow, the line goes through its midpoint, where the arrowhead is drawn (at the end of the line
+ * it would be hidden by the marker). Since the midpoint is on the line, the simplification of the polyline is turned
+ * off for these edges, otherwise Leaflet would drop the midpoint together with the arrowhead.
+ */
+export function createEdgePolyline(
+    edge: Edge,
+    style: EdgeStyle,
+    label?: string,
+): leaflet.Polyline {
+    const from = edge.marker1.location;
+    const to = edge.marker2.location;
+    const points = style.arrow
+        ? [
+              from,
+              leaflet.latLng((from.lat + to.lat) / 2, (from.lng + to.lng) / 2),
+              to,
+          ]
+        : [from, to];
+    const polyline = leaflet.polyline(points, {
+        color: style.color,
+        weight: style.weight,
+        dashArray: style.dashArray || null,
+        ...(style.arrow && { smoothFactor: 0 }),
+    });
+    if (style.arrow)
+        polyline.on('add', () => addArrowHead(polyline, style.color));
+    if (label)
+        polyline.bindTooltip(label, {
+            permanent: true,
+            direction: 'center',
+            offset: leaflet.point(
+                0,
+                style.arrow ? -ARROW_LABEL_OFFSET_PIXELS : 0,
+            ),
+            className: 'mv-edge-label',
+        });
+    return polyline;
+}
+
+/**
+ * Add an arrowhead to the middle vertex of a polyline using an SVG marker.
+ * SVG markers can't inherit the line color, so a marker is defined (once per SVG root) for every color in use.
+ */
+function addArrowHead(polyline: leaflet.Polyline, color: string) {
+    const path = polyline.getElement() as SVGPathElement;
+    const svg = path?.ownerSVGElement;
+    if (!svg) return;
+    const markerId = `mv-edge-arrow-${color.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    if (!svg.querySelector(`#${markerId}`)) {
+        const svgNamespace = 'http://www.w3.org/2000/svg';
+        let defs = svg.querySelector('defs');
+        if (!defs)
+            defs = svg.insertBefore(
+                document.createElementNS(svgNamespace, 'defs'),
+                svg.firstChild,
+            );
+        const marker = document.createElementNS(svgNamespace, 'marker');
+        marker.setAttribute('id', markerId);
+        marker.setAttribute('viewBox', '0 0 10 10');
+        marker.setAttribute('refX', '5');
+        marker.setAttribute('refY', '5');
+        marker.setAttribute('markerUnits', 'userSpaceOnUse');
+        marker.setAttribute('markerWidth', '12');
+        marker.setAttribute('markerHeight', '12');
+        marker.setAttribute('orient', 'auto');
+        const arrow = document.createElementNS(svgNamespace, 'path');
+        arrow.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z');
+        arrow.setAttribute('fill', color);
+        marker.appendChild(arrow);
+        defs.appendChild(marker);
+    }
+    path.setAttribute('marker-mid', `url(#${markerId})`);
+}
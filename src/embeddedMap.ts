@@ -37,12 +37,16 @@ export class EmbeddedMap {
             showFilters: false,
             showView: true,
             showLinks: false,
+            showTimeline: false,
+            showMarkerList: false,
             viewTabType: 'mini',
             showEmbeddedControls: true,
             showPresets: false,
             showSearch: false,
             showRealTimeButton: false,
             showLockButton: true,
+            showMeasureButton: false,
+            showSelectButton: false,
             showOpenButton: true,
             autoZoom: true,
             emptyFitRevertsToDefault: true,
@@ -119,6 +123,12 @@ export class EmbeddedMap {
         this.settings.mapControls.viewDisplayed = false;
     }
 
+    /** Release what the map holds, called when the code block that the map is embedded in is unloaded */
+    close() {
+        this.resizeObserver?.disconnect();
+        this.mapContainer.onClose();
+    }
+
     async setState(state: Partial<MapState>): Promise<MapState> {
         return this.mapContainer.highLevelSetViewState(state);
     }
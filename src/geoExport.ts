@@ -0,0 +1,275 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import type {
+    Feature,
+    FeatureCollection,
+    Geometry,
+    GeoJsonProperties,
+    Position,
+} from 'geojson';
+import { BaseGeoLayer, FileMarker, GeoJsonLayer } from 'src/markers';
+import { EXPORT_GENERATOR } from 'src/geoFiles';
+
+export type ExportFormat = 'geojson' | 'gpx' | 'kml';
+
+/**
+ * Convert map markers to a GeoJSON feature collection.
+ * File markers become points, and paths, areas and geo files keep their original features.
+ * Every feature gets the name, tags, note path and (for inline locations) note line of its marker.
+ */
+export function markersToGeoJson(markers: BaseGeoLayer[]): FeatureCollection {
+    let features: Feature[] = [];
+    for (const marker of markers) {
+        const properties = markerProperties(marker);
+        if (marker instanceof FileMarker) {
+            features.push({
+                type: 'Feature',
+                properties,
+                geometry: {
+                    type: 'Point',
+                    coordinates: [marker.location.lng, marker.location.lat],
+                },
+            });
+        } else if (marker instanceof GeoJsonLayer) {
+            for (const feature of marker.geojson.features) {
+                features.push({
+                    type: 'Feature',
+                    // Features of geo files usually have their own names, which are more specific than the file name
+                    properties: { ...properties, ...feature.properties },
+                    geometry: feature.geometry,
+                });
+            }
+        }
+    }
+    return { type: 'FeatureCollection', features };
+}
+
+function markerProperties(marker: BaseGeoLayer): GeoJsonProperties {
+    return {
+        name: marker.extraName ?? marker.file.basename,
+        path: marker.file.path,
+        ...(marker.tags.length > 0 && { tags: marker.tags }),
+        // fileLine is zero-based, while people (and the Obsidian editor) count lines from 1
+        ...(marker.fileLine != null && { line: marker.fileLine + 1 }),
+    };
+}
+
+/** Serialize map markers to the content of a GeoJSON, GPX or KML file */
+export function exportMarkers(
+    markers: BaseGeoLayer[],
+    format: ExportFormat,
+): string {
+    const geojson = markersToGeoJson(markers);
+    switch (format) {
+        case 'geojson':
+            // The generator comes first, so exports can be told apart without parsing them (see geoFiles.ts)
+            return JSON.stringify(
+                {
+                    type: geojson.type,
+                    generator: EXPORT_GENERATOR,
+                    features: geojson.features,
+                },
+                null,
+                2,
+            );
+        case 'gpx':
+            return geoJsonToGpx(geojson);
+        case 'kml':
+            return geoJsonToKml(geojson);
+    }
+}
+
+/**
+ * Export map markers to a new file in the vault.
+ * Throws an error if the file already exists.
+ * @param filePath The path of the new file, without an extension
+ */
+export async function exportMarkersToVault(
+    markers: BaseGeoLayer[],
+    format: ExportFormat,
+    filePath: string,
+    app: App,
+): Promise<TFile> {
+    const fullPath = normalizePath(`${filePath}.${format}`);
+    if (await app.vault.adapter.exists(fullPath))
+        throw new Error(`File ${fullPath} already exists`);
+    return await app.vault.create(fullPath, exportMarkers(markers, format));
+}
+
+function escapeXml(s: string) {
+    return s
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// A human-readable description of a feature, used in formats that don't have structured properties
+function featureDescription(properties: GeoJsonProperties) {
+    let lines: string[] = [];
+    if (properties?.tags) lines.push(properties.tags.join(' '));
+    if (properties?.path)
+        lines.push(
+            properties.line
+                ? `${properties.path}:${properties.line}`
+                : properties.path,
+        );
+    return lines.join('\n');
+}
+
+// Flatten geometry collections into their simple geometries
+function simpleGeometries(geometry: Geometry): Geometry[] {
+    if (!geometry) return [];
+    if (geometry.type === 'GeometryCollection')
+        return geometry.geometries.flatMap(simpleGeometries);
+    return [geometry];
+}
+
+function gpxPoint(tagName: string, position: Position, content = '') {
+    const elevation = position.length > 2 ? `<ele>${position[2]}</ele>` : '';
+    return `<${tagName} lat="${position[1]}" lon="${position[0]}">${elevation}${content}</${tagName}>`;
+}
+
+function gpxTrack(name: string, description: string, segments: Position[][]) {
+    const trackSegments = segments
+        .map(
+            (segment) =>
+                `<trkseg>${segment.map((position) => gpxPoint('trkpt', position)).join('')}</trkseg>`,
+        )
+        .join('\n');
+    return `<trk>${name}${description}\n${trackSegments}\n</trk>`;
+}
+
+/**
+ * Convert GeoJSON to GPX.
+ * Points become waypoints, while lines and polygons (which GPX doesn't have) become tracks.
+ */
+export function geoJsonToGpx(geojson: FeatureCollection): string {
+    // GPX requires all the waypoints to come before the tracks
+    let waypoints: string[] = [];
+    let tracks: string[] = [];
+    for (const feature of geojson.features) {
+        const name = feature.properties?.name
+            ? `<name>${escapeXml(String(feature.properties.name))}</name>`
+            : '';
+        const descriptionText = featureDescription(feature.properties);
+        const description = descriptionText
+            ? `<desc>${escapeXml(descriptionText)}</desc>`
+            : '';
+        for (const geometry of simpleGeometries(feature.geometry)) {
+            switch (geometry.type) {
+                case 'Point':
+                    waypoints.push(
+                        gpxPoint(
+                            'wpt',
+                            geometry.coordinates,
+                            name + description,
+                        ),
+                    );
+                    break;
+                case 'MultiPoint':
+                    for (const position of geometry.coordinates)
+                        waypoints.push(
+                            gpxPoint('wpt', position, name + description),
+                        );
+                    break;
+                case 'LineString':
+                    tracks.push(
+                        gpxTrack(name, description, [geometry.coordinates]),
+                    );
+                    break;
+                case 'MultiLineString':
+                case 'Polygon':
+                    tracks.push(
+                        gpxTrack(name, description, geometry.coordinates),
+                    );
+                    break;
+                case 'MultiPolygon':
+                    tracks.push(
+                        gpxTrack(
+                            name,
+                            description,
+                            geometry.coordinates.flat(),
+                        ),
+                    );
+                    break;
+            }
+        }
+    }
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${EXPORT_GENERATOR}" xmlns="http://www.topografix.com/GPX/1/1">
+${[...waypoints, ...tracks].join('\n')}
+</gpx>
+`;
+}
+
+function kmlCoordinates(positions: Position[]) {
+    return `<coordinates>${positions.map((position) => position.join(',')).join(' ')}</coordinates>`;
+}
+
+function kmlPolygon(rings: Position[][]) {
+    const [outer, ...inner] = rings;
+    const innerBoundaries = inner
+        .map(
+            (ring) =>
+                `<innerBoundaryIs><LinearRing>${kmlCoordinates(ring)}</LinearRing></innerBoundaryIs>`,
+        )
+        .join('');
+    return `<Polygon><outerBoundaryIs><LinearRing>${kmlCoordinates(outer ?? [])}</LinearRing></outerBoundaryIs>${innerBoundaries}</Polygon>`;
+}
+
+function kmlGeometry(geometry: Geometry): string {
+    switch (geometry.type) {
+        case 'Point':
+            return `<Point>${kmlCoordinates([geometry.coordinates])}</Point>`;
+        case 'LineString':
+            return `<LineString>${kmlCoordinates(geometry.coordinates)}</LineString>`;
+        case 'Polygon':
+            return kmlPolygon(geometry.coordinates);
+        case 'MultiPoint':
+            return `<MultiGeometry>${geometry.coordinates.map((position) => `<Point>${kmlCoordinates([position])}</Point>`).join('')}</MultiGeometry>`;
+        case 'MultiLineString':
+            return `<MultiGeometry>${geometry.coordinates.map((line) => `<LineString>${kmlCoordinates(line)}</LineString>`).join('')}</MultiGeometry>`;
+        case 'MultiPolygon':
+            return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+        case 'GeometryCollection':
+            return `<MultiGeometry>${geometry.geometries.map(kmlGeometry).join('')}</MultiGeometry>`;
+    }
+}
+
+/** Convert GeoJSON to KML, keeping the feature properties as extended data */
+export function geoJsonToKml(geojson: FeatureCollection): string {
+    let placemarks: string[] = [];
+    for (const feature of geojson.features) {
+        if (!feature.geometry) continue;
+        const properties = feature.properties ?? {};
+        const name = properties.name
+            ? `<name>${escapeXml(String(properties.name))}</name>`
+            : '';
+        const descriptionText = featureDescription(properties);
+        const description = descriptionText
+            ? `<description>${escapeXml(descriptionText)}</description>`
+            : '';
+        const extendedData = Object.entries(properties)
+            .filter(([key]) => key !== 'name')
+            .map(
+                ([key, value]) =>
+                    `<Data name="${escapeXml(key)}"><value>${escapeXml(Array.isArray(value) ? value.join(' ') : String(value))}</value></Data>`,
+            )
+            .join('');
+        placemarks.push(
+            `<Placemark>${name}${description}${
+                extendedData
+                    ? `<ExtendedData>${extendedData}</ExtendedData>`
+                    : ''
+            }${kmlGeometry(feature.geometry)}</Placemark>`,
+        );
+    }
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+<ExtendedData><Data name="generator"><value>${EXPORT_GENERATOR}</value></Data></ExtendedData>
+${placemarks.join('\n')}
+</Document>
+</kml>
+`;
+}
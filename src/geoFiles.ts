@@ -0,0 +1,257 @@
+import { App, TFile } from 'obsidian';
+import type {
+    Feature,
+    FeatureCollection,
+    Geometry,
+    GeoJsonObject,
+    Position,
+} from 'geojson';
+import { djb2Hash } from 'src/utils';
+
+export const GEO_FILE_EXTENSIONS = ['geojson', 'gpx', 'kml'];
+
+/** The name Map View writes as the creator of the files it exports (see geoExport.ts) */
+export const EXPORT_GENERATOR = 'Obsidian Map View';
+
+type CachedGeoFile = {
+    mtime: number;
+    /** Null for files exported by Map View, which are not displayed */
+    geojson: FeatureCollection | null;
+    /** A hash of the content, for telling whether the layer of the file needs to be redrawn */
+    contentHash: string;
+};
+
+// Parsing large GPX or KML files is relatively expensive and markers are rebuilt on every state change,
+// so the parsed data is kept per file path as long as the file doesn't change
+const parsedFilesCache: Map<string, CachedGeoFile> = new Map();
+
+export function isGeoFile(file: TFile): boolean {
+    return GEO_FILE_EXTENSIONS.includes(file.extension?.toLowerCase());
+}
+
+/** Get all the vault files that Map View can display as geographic layers (GeoJSON, GPX and KML) */
+export function getGeoFiles(app: App): TFile[] {
+    return app.vault.getFiles().filter((file) => isGeoFile(file));
+}
+
+/**
+ * Read and parse a GeoJSON, GPX or KML vault file into GeoJSON, together with a hash of its content.
+ * Returns null if the file cannot be parsed, or if it was exported by Map View: the features of exported files
+ * are already on the map as the markers they were exported from, so displaying them would show everything twice.
+ */
+export async function loadGeoFile(
+    file: TFile,
+    app: App,
+): Promise<{ geojson: FeatureCollection; contentHash: string } | null> {
+    const cached = parsedFilesCache.get(file.path);
+    if (cached && cached.mtime === file.stat.mtime)
+        return cached.geojson ? cached : null;
+    try {
+        const content = await app.vault.cachedRead(file);
+        const exported = isMapViewExport(content);
+        const parsed = {
+            mtime: file.stat.mtime,
+            geojson: exported ? null : parseGeoData(content, file.extension),
+            contentHash: djb2Hash(content),
+        };
+        parsedFilesCache.set(file.path, parsed);
+        return exported ? null : parsed;
+    } catch (e) {
+        console.log(`Map View: error parsing geo file ${file.path}`, e);
+        return null;
+    }
+}
+
+/**
+ * Whether the content of a geo file was exported by Map View.
+ * Exports have the generator at their beginning, as `"generator": "Obsidian Map View"` in GeoJSON,
+ * `creator="Obsidian Map View"` in GPX and `<Data name="generator"><value>Obsidian Map View</value></Data>` in KML.
+ */
+function isMapViewExport(content: string) {
+    const head = content.slice(0, 500);
+    return (
+        head.includes(`"generator": "${EXPORT_GENERATOR}"`) ||
+        head.includes(`creator="${EXPORT_GENERATOR}"`) ||
+        head.includes(
+            `<Data name="generator"><value>${EXPORT_GENERATOR}</value></Data>`,
+        )
+    );
+}
+
+/**
+ * Parse the content of a GeoJSON, GPX or KML document into a GeoJSON feature collection.
+ * @param content The file content
+ * @param format The file format, i.e. the file extension
+ */
+export function parseGeoData(
+    content: string,
+    format: string,
+): FeatureCollection {
+    switch (format.toLowerCase()) {
+        case 'geojson':
+        case 'json':
+            return toFeatureCollection(JSON.parse(content));
+        case 'gpx':
+            return gpxToGeoJson(parseXml(content));
+        case 'kml':
+            return kmlToGeoJson(parseXml(content));
+        default:
+            throw new Error('Unsupported geo file format ' + format);
+    }
+}
+
+export function toFeatureCollection(data: GeoJsonObject): FeatureCollection {
+    if (data.type === 'FeatureCollection') return data as FeatureCollection;
+    if (data.type === 'Feature')
+        return { type: 'FeatureCollection', features: [data as Feature] };
+    return {
+        type: 'FeatureCollection',
+        features: [
+            { type: 'Feature', properties: {}, geometry: data as Geometry },
+        ],
+    };
+}
+
+function parseXml(content: string): Document {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(content, 'application/xml');
+    const error = xmlDoc.querySelector('parsererror');
+    if (error) throw new Error(error.textContent);
+    return xmlDoc;
+}
+
+// Element.getElementsByTagNameNS is used below rather than querySelector because GPX and KML documents
+// are namespaced, which CSS selectors don't handle well
+function childText(element: Element, tagName: string): string | undefined {
+    for (const child of Array.from(element.children))
+        if (child.localName === tagName) return child.textContent?.trim();
+    return undefined;
+}
+
+function elementsByName(element: Element | Document, tagName: string) {
+    return Array.from(element.getElementsByTagNameNS('*', tagName));
+}
+
+function gpxPointPosition(point: Element): Position {
+    const position = [
+        parseFloat(point.getAttribute('lon')),
+        parseFloat(point.getAttribute('lat')),
+    ];
+    const elevation = childText(point, 'ele');
+    if (elevation) position.push(parseFloat(elevation));
+    return position;
+}
+
+function gpxProperties(element: Element) {
+    const properties: Record<string, string> = {};
+    for (const field of ['name', 'desc', 'cmt', 'type', 'time']) {
+        const value = childText(element, field);
+        if (value) properties[field] = value;
+    }
+    return properties;
+}
+
+export function gpxToGeoJson(xmlDoc: Document): FeatureCollection {
+    let features: Feature[] = [];
+    for (const waypoint of elementsByName(xmlDoc, 'wpt')) {
+        features.push({
+            type: 'Feature',
+            properties: gpxProperties(waypoint),
+            geometry: {
+                type: 'Point',
+                coordinates: gpxPointPosition(waypoint),
+            },
+        });
+    }
+    for (const route of elementsByName(xmlDoc, 'rte')) {
+        const coordinates = elementsByName(route, 'rtept').map(
+            gpxPointPosition,
+        );
+        if (coordinates.length < 2) continue;
+        features.push({
+            type: 'Feature',
+            properties: gpxProperties(route),
+            geometry: { type: 'LineString', coordinates },
+        });
+    }
+    for (const track of elementsByName(xmlDoc, 'trk')) {
+        const segments = elementsByName(track, 'trkseg')
+            .map((segment) =>
+                elementsByName(segment, 'trkpt').map(gpxPointPosition),
+            )
+            .filter((segment) => segment.length >= 2);
+        if (segments.length === 0) continue;
+        features.push({
+            type: 'Feature',
+            properties: gpxProperties(track),
+            geometry:
+                segments.length === 1
+                    ? { type: 'LineString', coordinates: segments[0] }
+                    : { type: 'MultiLineString', coordinates: segments },
+        });
+    }
+    return { type: 'FeatureCollection', features };
+}
+
+function kmlCoordinates(element: Element): Position[] {
+    const coordinatesElement = elementsByName(element, 'coordinates')[0];
+    if (!coordinatesElement) return [];
+    return coordinatesElement.textContent
+        .trim()
+        .split(/\s+/)
+        .filter((tuple) => tuple.length > 0)
+        .map((tuple) => tuple.split(',').map((value) => parseFloat(value)));
+}
+
+function kmlGeometry(element: Element): Geometry | null {
+    switch (element.localName) {
+        case 'Point': {
+            const point = kmlCoordinates(element);
+            return point.length > 0
+                ? { type: 'Point', coordinates: point[0] }
+                : null;
+        }
+        case 'LineString':
+            return { type: 'LineString', coordinates: kmlCoordinates(element) };
+        case 'Polygon': {
+            const outer = elementsByName(element, 'outerBoundaryIs').map(
+                kmlCoordinates,
+            );
+            const inner = elementsByName(element, 'innerBoundaryIs').map(
+                kmlCoordinates,
+            );
+            return { type: 'Polygon', coordinates: [...outer, ...inner] };
+        }
+        case 'MultiGeometry':
+            return {
+                type: 'GeometryCollection',
+                geometries: Array.from(element.children)
+                    .map(kmlGeometry)
+                    .filter((geometry) => geometry),
+            };
+        default:
+            return null;
+    }
+}
+
+export function kmlToGeoJson(xmlDoc: Document): FeatureCollection {
+    let features: Feature[] = [];
+    for (const placemark of elementsByName(xmlDoc, 'Placemark')) {
+        for (const child of Array.from(placemark.children)) {
+            const geometry = kmlGeometry(child);
+            if (!geometry) continue;
+            const properties: Record<string, string> = {};
+            for (const field of [
+                'name',
+                'description',
+                'address',
+                'phoneNumber',
+            ]) {
+                const value = childText(placemark, field);
+                if (value) properties[field] = value;
+            }
+            features.push({ type: 'Feature', properties, geometry });
+        }
+    }
+    return { type: 'FeatureCollection', features };
+}
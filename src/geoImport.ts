@@ -0,0 +1,268 @@
+import * as leaflet from 'leaflet';
+import type { Feature, FeatureCollection } from 'geojson';
+import { parseGeoData } from 'src/geoFiles';
+
+export type ImportFormat = 'kml' | 'gpx' | 'geojson' | 'csv';
+
+/** A single place read from an imported file */
+export type ImportedPlace = {
+    name: string;
+    location: leaflet.LatLng;
+    /** The values that can be used in the import template, by field name */
+    fields: Record<string, string>;
+};
+
+export type ImportResult = {
+    /** A title for the imported places, if the file has one (e.g. a KML folder name) */
+    title?: string;
+    places: ImportedPlace[];
+    /** The names of all the fields that the places have, in order of appearance */
+    fieldNames: string[];
+};
+
+/** The CSV columns to take the latitude and longitude from */
+export type CsvColumns = {
+    lat: string;
+    lng: string;
+};
+
+export function getImportFormat(fileName: string): ImportFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    switch (extension) {
+        case 'kml':
+        case 'gpx':
+        case 'geojson':
+        case 'csv':
+            return extension;
+        case 'json':
+            return 'geojson';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Read the places of an imported file.
+ * For GPX files these are the waypoints, for KML and GeoJSON these are the point features, and for CSV these are
+ * the rows, using the given columns for the coordinates.
+ * Google Takeout saved places (which are GeoJSON) are recognized and get the convenience fields 'name', 'address'
+ * and 'url'.
+ */
+export function importPlaces(
+    content: string,
+    format: ImportFormat,
+    csvColumns?: CsvColumns,
+): ImportResult {
+    let result: ImportResult;
+    if (format === 'csv') result = csvToPlaces(content, csvColumns);
+    else {
+        result = featuresToPlaces(parseGeoData(content, format));
+        result.title = getDocumentTitle(content, format);
+    }
+    for (const place of result.places) {
+        place.fields.name ??= place.name;
+        place.fields.coordinates = `${place.location.lat},${place.location.lng}`;
+    }
+    result.fieldNames = [
+        'name',
+        'coordinates',
+        ...result.fieldNames.filter(
+            (field) => field !== 'name' && field !== 'coordinates',
+        ),
+    ];
+    return result;
+}
+
+/**
+ * Format a place using a template in which {{field}} is replaced by the value of the field.
+ * Fields that other places of the same import have but this one doesn't are replaced by an empty string.
+ */
+export function formatPlace(
+    template: string,
+    place: ImportedPlace,
+    fieldNames: string[],
+): string {
+    let formatted = template;
+    for (const field of fieldNames)
+        formatted = formatted
+            .split(`{{${field}}}`)
+            .join(place.fields[field] ?? '');
+    return formatted;
+}
+
+function getDocumentTitle(content: string, format: ImportFormat) {
+    if (format !== 'kml' && format !== 'gpx') return undefined;
+    const xmlDoc = new DOMParser().parseFromString(content, 'application/xml');
+    const titleElement =
+        format === 'kml'
+            ? xmlDoc.querySelector('Folder > name')
+            : xmlDoc.querySelector('metadata > name');
+    return titleElement?.textContent?.trim() || undefined;
+}
+
+function featuresToPlaces(geojson: FeatureCollection): ImportResult {
+    let places: ImportedPlace[] = [];
+    let fieldNames = new Set<string>();
+    for (const feature of geojson.features) {
+        const place = isTakeoutFeature(feature)
+            ? takeoutFeatureToPlace(feature)
+            : pointFeatureToPlace(feature);
+        if (!place) continue;
+        Object.keys(place.fields).forEach((field) => fieldNames.add(field));
+        places.push(place);
+    }
+    return { places, fieldNames: Array.from(fieldNames) };
+}
+
+function pointFeatureToPlace(feature: Feature): ImportedPlace | null {
+    if (feature.geometry?.type !== 'Point') return null;
+    const [lng, lat] = feature.geometry.coordinates;
+    const fields = flattenProperties(feature.properties ?? {});
+    return {
+        name: fields.name ?? fields.title ?? '',
+        location: new leaflet.LatLng(lat, lng),
+        fields,
+    };
+}
+
+// Turn nested properties into a flat list of fields, e.g. {location: {address: 'x'}} into {'location.address': 'x'}
+function flattenProperties(
+    properties: Record<string, any>,
+    prefix = '',
+): Record<string, string> {
+    let fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(properties)) {
+        if (value == null) continue;
+        if (typeof value === 'object' && !Array.isArray(value))
+            Object.assign(fields, flattenProperties(value, `${prefix}${key}.`));
+        else
+            fields[`${prefix}${key}`] = Array.isArray(value)
+                ? value.join(', ')
+                : String(value);
+    }
+    return fields;
+}
+
+// Google Takeout saved places are GeoJSON features that have a Google Maps URL, and in newer exports, the place
+// details in a 'location' property
+function isTakeoutFeature(feature: Feature) {
+    return (
+        feature.properties?.google_maps_url != null ||
+        typeof feature.properties?.location === 'object'
+    );
+}
+
+function takeoutFeatureToPlace(feature: Feature): ImportedPlace | null {
+    const properties = feature.properties;
+    const fields = flattenProperties(properties);
+    // Older exports have the place details in 'Location' and 'Title', newer ones in 'location'
+    const details = properties.location ?? properties.Location ?? {};
+    fields.name = details.name ?? details['Business Name'] ?? properties.Title;
+    fields.address = details.address ?? details.Address;
+    fields.url = properties.google_maps_url ?? properties['Google Maps URL'];
+    let location: leaflet.LatLng = null;
+    if (feature.geometry?.type === 'Point') {
+        const [lng, lat] = feature.geometry.coordinates;
+        // Places that Google couldn't resolve get the coordinates 0,0
+        if (lat !== 0 || lng !== 0) location = new leaflet.LatLng(lat, lng);
+    }
+    if (!location && details['Geo Coordinates'])
+        location = new leaflet.LatLng(
+            parseFloat(details['Geo Coordinates'].Latitude),
+            parseFloat(details['Geo Coordinates'].Longitude),
+        );
+    if (!location && fields.url) {
+        const urlCoordinates = fields.url.match(
+            /[?&]q=([0-9\.\-]+),([0-9\.\-]+)/,
+        );
+        if (urlCoordinates)
+            location = new leaflet.LatLng(
+                parseFloat(urlCoordinates[1]),
+                parseFloat(urlCoordinates[2]),
+            );
+    }
+    if (!location || isNaN(location.lat) || isNaN(location.lng)) return null;
+    for (const field of ['name', 'address', 'url'])
+        if (fields[field] == null) delete fields[field];
+    return { name: fields.name ?? '', location, fields };
+}
+
+/**
+ * Parse CSV content into rows of values.
+ * Supports quoted values (including delimiters, new lines and escaped quotes inside them), and detects semicolon and
+ * tab delimiters by the first line.
+ */
+export function parseCsv(content: string): string[][] {
+    const firstLine = content.split('\n')[0];
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length
+            ? candidate
+            : best,
+    );
+    let rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') inQuotes = false;
+            else value += char;
+        } else if (char === '"') inQuotes = true;
+        else if (char === delimiter) {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(value);
+            value = '';
+            if (row.some((cell) => cell.trim().length > 0)) rows.push(row);
+            row = [];
+        } else value += char;
+    }
+    row.push(value);
+    if (row.some((cell) => cell.trim().length > 0)) rows.push(row);
+    return rows;
+}
+
+/** Guess which CSV columns hold the coordinates, by common column names */
+export function guessCsvColumns(header: string[]): CsvColumns {
+    const find = (names: string[]) =>
+        header.find((column) => names.includes(column.trim().toLowerCase())) ??
+        '';
+    return {
+        lat: find(['lat', 'latitude', 'y']),
+        lng: find(['lng', 'lon', 'long', 'longitude', 'x']),
+    };
+}
+
+function csvToPlaces(content: string, columns: CsvColumns): ImportResult {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) return { places: [], fieldNames: [] };
+    const fieldNames = header.map((column) => column.trim());
+    const latIndex = fieldNames.indexOf(columns?.lat);
+    const lngIndex = fieldNames.indexOf(columns?.lng);
+    let places: ImportedPlace[] = [];
+    if (latIndex < 0 || lngIndex < 0) return { places, fieldNames };
+    const nameIndex = fieldNames.findIndex((column) =>
+        ['name', 'title'].includes(column.toLowerCase()),
+    );
+    for (const row of rows) {
+        const lat = parseFloat(row[latIndex]);
+        const lng = parseFloat(row[lngIndex]);
+        if (isNaN(lat) || isNaN(lng)) continue;
+        let fields: Record<string, string> = {};
+        fieldNames.forEach((column, i) => {
+            if (row[i] != null) fields[column] = row[i].trim();
+        });
+        places.push({
+            name: fields[fieldNames[nameIndex >= 0 ? nameIndex : 0]] ?? '',
+            location: new leaflet.LatLng(lat, lng),
+            fields,
+        });
+    }
+    return { places, fieldNames };
+}
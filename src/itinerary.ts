@@ -0,0 +1,83 @@
+import { App, getIcon } from 'obsidian';
+import * as leaflet from 'leaflet';
+import { type MapState } from 'src/mapState';
+import { BaseGeoLayer, FileMarker } from 'src/markers';
+import * as consts from 'src/consts';
+
+/**
+ * Returns the itineraries to show on the map, i.e. for every note that is in itinerary mode (by the map state or by
+ * its front matter), its inline markers in the order in which they appear in the note.
+ * Notes with less than two inline markers are not itineraries.
+ */
+export function getItineraries(
+    markers: Iterable<BaseGeoLayer>,
+    state: MapState,
+    app: App,
+): FileMarker[][] {
+    let markersByFile: Map<string, FileMarker[]> = new Map();
+    for (const marker of markers) {
+        if (!(marker instanceof FileMarker) || marker.fileLine == null)
+            continue;
+        const path = marker.file.path;
+        if (!markersByFile.has(path)) markersByFile.set(path, []);
+        markersByFile.get(path).push(marker);
+    }
+    let itineraries: FileMarker[][] = [];
+    for (const fileMarkers of markersByFile.values()) {
+        if (fileMarkers.length < 2) continue;
+        if (!state.itinerary && !isItineraryNote(fileMarkers[0], app)) continue;
+        itineraries.push(
+            fileMarkers.sort(
+                (a, b) =>
+                    a.fileLine - b.fileLine ||
+                    (a.fileLocation ?? 0) - (b.fileLocation ?? 0),
+            ),
+        );
+    }
+    return itineraries;
+}
+
+function isItineraryNote(marker: BaseGeoLayer, app: App) {
+    const value = app.metadataCache.getFileCache(marker.file)?.frontmatter?.[
+        consts.ITINERARY_FRONT_MATTER_KEY
+    ];
+    return value === true || value === 'true';
+}
+
+/**
+ * Create the map layers of an itinerary: a line through its stops, and a numbered badge next to every stop, where
+ * the first and last stops also get start and end icons.
+ */
+export function createItineraryLayer(stops: FileMarker[]): leaflet.LayerGroup {
+    let layers: leaflet.Layer[] = [
+        leaflet.polyline(
+            stops.map((stop) => stop.location),
+            { className: 'mv-itinerary', interactive: false },
+        ),
+    ];
+    stops.forEach((stop, i) => {
+        let badge = createDiv('mv-itinerary-badge');
+        if (i === 0) {
+            badge.addClass('mv-itinerary-start');
+            badge.appendChild(getIcon('play'));
+        } else if (i === stops.length - 1) {
+            badge.addClass('mv-itinerary-end');
+            badge.appendChild(getIcon('flag'));
+        }
+        badge.createSpan({ text: (i + 1).toString() });
+        layers.push(
+            leaflet.marker(stop.location, {
+                icon: leaflet.divIcon({
+                    className: '',
+                    html: badge,
+                    // Place the badge at the top right of the marker icon
+                    iconSize: null,
+                    iconAnchor: [-10, 42],
+                }),
+                interactive: false,
+                keyboard: false,
+            }),
+        );
+    });
+    return leaflet.layerGroup(layers);
+}
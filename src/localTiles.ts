@@ -0,0 +1,153 @@
+import { App, TFile, Notice, normalizePath } from 'obsidian';
+import * as leaflet from 'leaflet';
+// See tilePacks.ts for why the asm.js build of SQLite is used
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+import type { Database } from 'sql.js';
+import type { TileSource, TileSourceType } from 'src/settings';
+
+export type LocalTileSourceType = Exclude<TileSourceType, 'url'>;
+
+/** Local sources read their tiles from the vault, and their URL fields hold vault paths */
+export function isLocalTileSource(source: TileSource) {
+    return source.sourceType === 'folder' || source.sourceType === 'mbtiles';
+}
+
+// The tile file extensions looked for in folder sources, by order
+const FOLDER_TILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+/** The MIME types of tile images by their file extensions (which are also their MBTiles format names) */
+export const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+type MbtilesDatabase = { db: Database; mimeType: string };
+
+/**
+ * A tile layer that reads its tiles from the vault instead of the network.
+ * - For 'folder' sources, the path is a folder of `{z}/{x}/{y}.png` tiles (JPEG and WebP tiles are also found).
+ * - For 'mbtiles' sources, the path is an MBTiles file, which is loaded to memory while the layer is on the map.
+ */
+export class LocalTileLayer extends leaflet.TileLayer {
+    private app: App;
+    private sourceType: LocalTileSourceType;
+    private path: string;
+    private database: Promise<MbtilesDatabase> = null;
+
+    constructor(
+        app: App,
+        sourceType: LocalTileSourceType,
+        path: string,
+        options: leaflet.TileLayerOptions,
+    ) {
+        super('', options);
+        this.app = app;
+        this.sourceType = sourceType;
+        this.path = normalizePath(path);
+    }
+
+    createTile(coords: leaflet.Coords, done: leaflet.DoneCallback) {
+        const tile = document.createElement('img');
+        tile.alt = '';
+        tile.setAttribute('role', 'presentation');
+        tile.onload = () => {
+            // The error tile was already reported in onTileError
+            if (tile.getAttribute('src') === this.options.errorTileUrl) return;
+            // The image is already decoded so its data is no longer needed
+            if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src);
+            done(null, tile);
+        };
+        tile.onerror = () => this.onTileError(tile, done, null);
+        this.readTile(coords)
+            .then((blob) => {
+                if (blob) tile.src = URL.createObjectURL(blob);
+                else this.onTileError(tile, done, null);
+            })
+            .catch((error) => this.onTileError(tile, done, error));
+        return tile;
+    }
+
+    onRemove(map: leaflet.Map) {
+        super.onRemove(map);
+        this.database?.then((database) => database.db.close()).catch(() => {});
+        this.database = null;
+        return this;
+    }
+
+    private onTileError(
+        tile: HTMLImageElement,
+        done: leaflet.DoneCallback,
+        error: Error,
+    ) {
+        // Like Leaflet does for remote tiles, show the error tile instead
+        const errorUrl = this.options.errorTileUrl;
+        if (errorUrl && tile.getAttribute('src') !== errorUrl)
+            tile.src = errorUrl;
+        done(error ?? new Error('Tile not found'), tile);
+    }
+
+    private async readTile(coords: leaflet.Coords): Promise<Blob | null> {
+        if (this.sourceType === 'folder') return this.readFolderTile(coords);
+        else return this.readMbtilesTile(coords);
+    }
+
+    private async readFolderTile(coords: leaflet.Coords) {
+        for (const extension of FOLDER_TILE_EXTENSIONS) {
+            const file = this.app.vault.getAbstractFileByPath(
+                `${this.path}/${coords.z}/${coords.x}/${coords.y}.${extension}`,
+            );
+            if (file instanceof TFile) {
+                const data = await this.app.vault.readBinary(file);
+                return new Blob([data], { type: MIME_TYPES[extension] });
+            }
+        }
+        return null;
+    }
+
+    private async readMbtilesTile(coords: leaflet.Coords) {
+        if (!this.database) {
+            this.database = openMbtiles(this.app, this.path);
+            this.database.catch(
+                (error) =>
+                    new Notice(
+                        `Map View: cannot use ${this.path}: ${error.message}`,
+                    ),
+            );
+        }
+        const { db, mimeType } = await this.database;
+        // MBTiles uses the TMS tile scheme, in which rows are counted from the south
+        const result = db.exec(
+            'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?',
+            [coords.z, coords.x, Math.pow(2, coords.z) - 1 - coords.y],
+        );
+        const data = result[0]?.values[0]?.[0] as Uint8Array;
+        if (!data) return null;
+        return new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType });
+    }
+}
+
+async function openMbtiles(app: App, path: string): Promise<MbtilesDatabase> {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) throw new Error('the file does not exist');
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(
+        new Uint8Array(await app.vault.readBinary(file)),
+    );
+    let format: string;
+    try {
+        const result = db.exec(
+            "SELECT value FROM metadata WHERE name = 'format'",
+        );
+        format = (result[0]?.values[0]?.[0] as string) ?? 'png';
+    } catch (e) {
+        db.close();
+        throw new Error('this is not a valid MBTiles file');
+    }
+    const mimeType = MIME_TYPES[format];
+    if (!mimeType) {
+        db.close();
+        throw new Error(`tiles of type '${format}' are not supported`);
+    }
+    return { db, mimeType };
+}
@@ -11,6 +11,7 @@ import {
     TAbstractFile,
     type ObsidianProtocolData,
     type MarkdownPostProcessorContext,
+    MarkdownRenderChild,
     Notice,
 } from 'obsidian';
 import 'core-js/actual/structured-clone';
@@ -19,9 +20,11 @@ import * as consts from 'src/consts';
 import * as leaflet from 'leaflet';
 import { LocationSuggest } from 'src/locationSuggest';
 import { UrlConvertor } from 'src/urlConvertor';
+import { ReverseGeocoder } from 'src/reverseGeocoding';
 import { mergeStates, stateFromParsedUrl, getCodeBlock } from 'src/mapState';
 import * as menus from 'src/menus';
 import { purgeTilesBySettings } from 'src/offlineTiles.svelte';
+import { openBatchGeocodingDialog } from 'src/batchGeocoding.svelte';
 
 import { MainMapView } from 'src/mainMapView';
 // import { MiniMapView } from 'src/miniMapView';
@@ -61,6 +64,7 @@ export default class MapViewPlugin extends Plugin {
     private suggestor: LocationSuggest;
     private tagSuggestor: TagSuggest;
     private urlConvertor: UrlConvertor;
+    public reverseGeocoder: ReverseGeocoder;
     private mapPreviewPopup: MapPreviewPopup;
     public editorLinkReplacePlugin: ViewPlugin<GeoLinkReplacePlugin>;
     // Includes all the known tags that are within markers, both inline (which are not necessarily known to Obsidian)
@@ -231,6 +235,10 @@ export default class MapViewPlugin extends Plugin {
                         this.settings.defaultState,
                         state,
                     );
+                    // Close the map when the code block is re-rendered or its note is closed
+                    const renderChild = new MarkdownRenderChild(el);
+                    renderChild.onunload = () => map.close();
+                    ctx.addChild(renderChild);
                     await map.open(fullState);
                 }
             },
@@ -241,6 +249,7 @@ export default class MapViewPlugin extends Plugin {
         this.suggestor = new LocationSuggest(this.app, this.settings);
         this.tagSuggestor = new TagSuggest(this.app, this);
         this.urlConvertor = new UrlConvertor(this.app, this.settings);
+        this.reverseGeocoder = new ReverseGeocoder(this);
 
         this.registerEditorSuggest(this.suggestor);
         this.registerEditorSuggest(this.tagSuggestor);
@@ -341,6 +350,52 @@ export default class MapViewPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: 'export-map-markers',
+            name: 'Export markers of the active Map View to a file',
+            checkCallback: (checking) => {
+                const view = utils.findOpenMapView(this.app);
+                if (checking) return !!view;
+                (view as MainMapView).mapContainer.openExportDialog();
+            },
+        });
+
+        this.addCommand({
+            id: 'undo-marker-move',
+            name: 'Undo the last marker move in the active Map View',
+            checkCallback: (checking) => {
+                const view = utils.findOpenMapView(this.app);
+                if (checking)
+                    return (
+                        !!view &&
+                        (view as MainMapView).mapContainer.moveHistory.canUndo
+                    );
+                (view as MainMapView).mapContainer.undoMarkerMove();
+            },
+        });
+
+        this.addCommand({
+            id: 'redo-marker-move',
+            name: 'Redo the last undone marker move in the active Map View',
+            checkCallback: (checking) => {
+                const view = utils.findOpenMapView(this.app);
+                if (checking)
+                    return (
+                        !!view &&
+                        (view as MainMapView).mapContainer.moveHistory.canRedo
+                    );
+                (view as MainMapView).mapContainer.redoMarkerMove();
+            },
+        });
+
+        this.addCommand({
+            id: 'geocode-notes',
+            name: 'Geocode notes that have an address',
+            callback: () => {
+                openBatchGeocodingDialog(this);
+            },
+        });
+
         this.addCommand({
             id: 'quick-map-embed',
             name: 'Add an embedded map',
@@ -914,6 +969,7 @@ export default class MapViewPlugin extends Plugin {
                 this.suggestor,
                 this.urlConvertor,
                 this.settings,
+                this,
             );
             menus.addEmbed(menu, this, editor);
         }
@@ -986,9 +1042,12 @@ export default class MapViewPlugin extends Plugin {
         extraLocationData: utils.ExtraLocationData,
     ) {
         const locationString = `${location.lat},${location.lng}`;
+        const place = await this.reverseGeocoder.lookup(location);
+        if (place) extraLocationData = { ...extraLocationData, place };
         const newFileName = utils.formatWithTemplates(
             this.settings.newNoteNameFormat,
             query,
+            extraLocationData,
         );
         const [file, cursorPos] = await utils.newNote(
             this.app,
@@ -20,11 +20,15 @@ export class MainMapView extends BaseMapView {
             showView: true,
             viewTabType: 'regular',
             showLinks: true,
+            showTimeline: true,
+            showMarkerList: true,
             showEmbeddedControls: false,
             showPresets: true,
             showSearch: true,
             showRealTimeButton: true,
             showLockButton: false,
+            showMeasureButton: true,
+            showSelectButton: true,
             showOpenButton: false,
         };
 
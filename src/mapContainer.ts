@@ -7,6 +7,7 @@ import {
     WorkspaceLeaf,
     Notice,
     MenuItem,
+    type EventRef,
     type Loc,
 } from 'obsidian';
 import * as leaflet from 'leaflet';
@@ -18,6 +19,7 @@ import 'leaflet-geosearch/dist/geosearch.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
 import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 import 'leaflet.markercluster';
+import 'leaflet.heat';
 import {
     type TileLayerOffline,
     tileLayerOffline,
@@ -35,12 +37,14 @@ import {
     type OpenBehavior,
     type PluginSettings,
     type TileSource,
+    type OverlaySource,
     DEFAULT_SETTINGS,
 } from 'src/settings';
 import {
     type MarkersMap,
     BaseGeoLayer,
     FileMarker,
+    GeoJsonLayer,
     buildMarkers,
     buildAndAppendFileMarkers,
     finalizeMarkers,
@@ -48,6 +52,7 @@ import {
     cacheTagsFromMarkers,
 } from 'src/markers';
 import { getIconFromOptions, type IconOptions } from 'src/markerIcons';
+import { getGeoFiles, isGeoFile } from 'src/geoFiles';
 import MapViewPlugin from 'src/main';
 import * as utils from 'src/utils';
 import {
@@ -55,8 +60,22 @@ import {
     SearchControl,
     RealTimeControl,
     LockControl,
+    MeasureControl,
+    SelectControl,
 } from 'src/viewControls';
+import { MeasureTool } from 'src/measure';
+import { SelectionTool } from 'src/selection';
+import { type MarkerMove, MoveHistory } from 'src/markerMoves';
+import { createEdgePolyline, getEdgeStyle } from 'src/edges';
+import { createItineraryLayer, getItineraries } from 'src/itinerary';
+import { type Route, getRoute } from 'src/routing';
 import { Query } from 'src/query';
+import {
+    type TimelineExtent,
+    filterMarkersByTime,
+    getTimelineExtent,
+} from 'src/timeline';
+import { type ReferencePoint, filterNearestMarkers } from 'src/nearby';
 import { GeoSearchResult } from 'src/geosearch';
 import {
     type RealTimeLocation,
@@ -66,7 +85,17 @@ import {
 import * as menus from 'src/menus';
 import { createPopper, type Instance as PopperInstance } from '@popperjs/core';
 import * as offlineTiles from 'src/offlineTiles.svelte';
+import {
+    LocalTileLayer,
+    isLocalTileSource,
+    type LocalTileSourceType,
+} from 'src/localTiles';
+import { createVectorTileLayer, isVectorTileSource } from 'src/vectorTiles';
+import { getOverlayUrlTemplate, getWmsBbox } from 'src/overlays';
 import MarkerPopup from './components/MarkerPopup.svelte';
+import ExportDialog from './components/ExportDialog.svelte';
+import SelectionDialog from './components/SelectionDialog.svelte';
+import { SvelteModal } from 'src/svelte';
 
 export type ViewSettings = {
     showMinimizeButton: boolean;
@@ -75,6 +104,8 @@ export type ViewSettings = {
     showFilters: boolean;
     showView: boolean;
     showLinks: boolean;
+    showTimeline: boolean;
+    showMarkerList: boolean;
     viewTabType: 'regular' | 'mini';
     showEmbeddedControls: boolean;
     showPresets: boolean;
@@ -82,6 +113,8 @@ export type ViewSettings = {
     showOpenButton: boolean;
     showRealTimeButton: boolean;
     showLockButton: boolean;
+    showMeasureButton: boolean;
+    showSelectButton: boolean;
 
     // Override the global settings auto zoom.
     // Unlike the global auto zoom, the view auto zoom also happens on every setState, so when a new view opens,
@@ -117,13 +150,25 @@ export class MapContainer {
         popupClickEventListener: (ev: MouseEvent) => void;
         /** The leaflet map instance */
         map: leaflet.Map;
-        tileLayer: TileLayerOffline;
+        /**
+         * The tile layer of the chosen map source, which is a LocalTileLayer for local sources and a Protomaps
+         * layer for vector sources
+         */
+        tileLayer: leaflet.GridLayer;
+        /** The displayed overlay layers, by the index of their overlay source */
+        overlayLayers: Map<number, TileLayerOffline> = new Map();
         /** The cluster management class */
         clusterGroup: leaflet.MarkerClusterGroup;
+        /** The layers of geo files and inline paths, which are not clustered and stay visible in heatmap mode */
+        geoJsonGroup: leaflet.LayerGroup;
+        /** The heatmap layer, used instead of the cluster group when the display mode is 'heatmap' */
+        heatLayer: leaflet.HeatLayer = null;
         /** The markers currently on the map */
         markers: MarkersMap = new Map();
         /** The polylines currently on the map */
         polylines: leaflet.Polyline[] = [];
+        /** The lines and stop numbers of notes shown as itineraries */
+        itineraryLayer: leaflet.LayerGroup = null;
         /** The view controls */
         controls: ViewControls;
         /** The zoom controls */
@@ -134,6 +179,12 @@ export class MapContainer {
         realTimeControls: RealTimeControl = null;
         /** The lock control */
         lockControl: LockControl = null;
+        /** The measurement tool and its control */
+        measureTool: MeasureTool = null;
+        measureControl: MeasureControl = null;
+        /** The marker selection tool and its control */
+        selectionTool: SelectionTool = null;
+        selectControl: SelectControl = null;
         /** A marker of the last search result */
         searchResult: leaflet.Marker = null;
         /** The currently highlighted marker (if any) */
@@ -142,6 +193,9 @@ export class MapContainer {
         actualHighlight: leaflet.Marker = null;
         /** The marker used to denote a routing source if any */
         routingSource: leaflet.Marker = null;
+        /** A route calculated by the routing engine, and the layer that shows it */
+        route: Route = null;
+        routeLayer: leaflet.GeoJSON = null;
         realTimeLocationMarker: leaflet.Marker = null;
         realTimeLocationRadius: leaflet.Circle = null;
         /** Part of an ugly mechanism that's required to cache loaded tiles */
@@ -153,6 +207,12 @@ export class MapContainer {
     /** The default state as saved in the plugin settings, or something else that the view sets */
     public defaultState: MapState;
     public lastRealTimeLocation: RealTimeLocation = null;
+    /** The reference point that the nearest markers were last calculated from */
+    private nearestMarkersReference: leaflet.LatLng = null;
+    /** The marker moves (by dragging) that can be undone and redone */
+    public moveHistory = new MoveHistory();
+    /** The date range of the markers that match the query, used as the range of the timeline controls */
+    public timelineExtent: TimelineExtent = null;
     /**
      * The Workspace Leaf that a note was last opened in when a new pane was created.
      * This is saved so the same leaf can be reused when opening subsequent notes, making the flow consistent & predictable for the user.
@@ -164,6 +224,8 @@ export class MapContainer {
     private lastTabLeaf: WorkspaceLeaf;
     /** Is the view currently open */
     private isOpen: boolean = false;
+    /** The vault events that track GeoJSON, GPX and KML files, unregistered when the view closes */
+    private geoFileEventRefs: EventRef[] = [];
     /** On an embedded map view, this is set by the parent view object so the relevant button can call it. */
     public updateCodeBlockCallback: () => Promise<void>;
     /** On an embedded map view, this is set by the parent view object so the relevant button can call it. */
@@ -203,6 +265,15 @@ export class MapContainer {
         this.app.metadataCache.on('changed', (file) =>
             this.updateMarkersWithRelationToFile(file.path, file, false),
         );
+        // GeoJSON, GPX and KML files have no metadata cache, so their changes are tracked directly
+        const onGeoFileChange = (file: TAbstractFile) => {
+            if (file instanceof TFile && isGeoFile(file))
+                this.updateMarkersWithRelationToFile(file.path, file, false);
+        };
+        this.geoFileEventRefs = [
+            this.app.vault.on('create', onGeoFileChange),
+            this.app.vault.on('modify', onGeoFileChange),
+        ];
         // On rename we don't need to do anything because the markers hold a TFile, and the TFile object doesn't change
         // when the file name changes. Only its internal path field changes accordingly.
         // this.app.vault.on('rename', (file, oldPath) => this.updateMarkersWithRelationToFile(oldPath, file, true));
@@ -327,6 +398,8 @@ export class MapContainer {
 
     onClose() {
         this.isOpen = false;
+        for (const ref of this.geoFileEventRefs) this.app.vault.offref(ref);
+        this.geoFileEventRefs = [];
     }
 
     /**
@@ -342,6 +415,7 @@ export class MapContainer {
         if (state) {
             const newState = mergeStates(this.state, state);
             this.updateTileLayerByState(newState);
+            this.updateOverlaysByState(newState);
             // This is delicate stuff and I've been working tediously to get to the best version of it.
             // We are doing our best to prevent updating the map while it is being interacted with, but
             // we cannot prevent this completely because there are async scenarios that can still unfreeze
@@ -444,25 +518,89 @@ export class MapContainer {
             if (isDark) {
                 if (chosenMapSource.urlDark)
                     mapSourceUrl = chosenMapSource.urlDark;
-                else revertMap = true;
+                // Vector sources have a dark style instead
+                else if (!isVectorTileSource(chosenMapSource)) revertMap = true;
             }
             const neededClassName = revertMap ? 'dark-mode' : '';
             const maxNativeZoom =
                 chosenMapSource.maxZoom ?? consts.DEFAULT_MAX_TILE_ZOOM;
-            this.display.tileLayer = this.createTileLayer(mapSourceUrl, {
+            const options: leaflet.TileLayerOptions = {
                 maxZoom: this.settings.letZoomBeyondMax
                     ? consts.MAX_ZOOM
                     : maxNativeZoom,
                 maxNativeZoom: maxNativeZoom,
-                subdomains: ['mt0', 'mt1', 'mt2', 'mt3'],
+                subdomains: consts.TILE_SUBDOMAINS,
                 attribution: attribution,
                 className: neededClassName,
                 errorTileUrl: this.createErrorTile(),
-            });
+            };
+            if (isVectorTileSource(chosenMapSource))
+                this.display.tileLayer = createVectorTileLayer(
+                    this.app,
+                    chosenMapSource,
+                    mapSourceUrl,
+                    isDark,
+                    // Protomaps adds its own attribution
+                    { ...options, attribution: undefined },
+                );
+            else if (isLocalTileSource(chosenMapSource))
+                this.display.tileLayer = new LocalTileLayer(
+                    this.app,
+                    chosenMapSource.sourceType as LocalTileSourceType,
+                    mapSourceUrl,
+                    options,
+                );
+            else
+                this.display.tileLayer = this.createTileLayer(
+                    mapSourceUrl,
+                    options,
+                );
             this.display.map.addLayer(this.display.tileLayer);
         }
     }
 
+    updateOverlaysByState(newState: MapState) {
+        const overlays = (newState.overlays ?? []).filter(
+            (overlay) => this.settings.overlaySources?.[overlay.source],
+        );
+        for (const [source, layer] of this.display.overlayLayers) {
+            if (!overlays.some((overlay) => overlay.source === source)) {
+                layer.remove();
+                this.display.overlayLayers.delete(source);
+            }
+        }
+        overlays.forEach((overlay, i) => {
+            let layer = this.display.overlayLayers.get(overlay.source);
+            if (!layer) {
+                layer = this.createOverlayLayer(
+                    this.settings.overlaySources[overlay.source],
+                );
+                this.display.overlayLayers.set(overlay.source, layer);
+                this.display.map.addLayer(layer);
+            }
+            layer.setOpacity(overlay.opacity);
+            // Above the map source, whose z-index is 1, by the order of the overlays
+            layer.setZIndex(2 + i);
+        });
+        this.state.overlays = newState.overlays;
+    }
+
+    createOverlayLayer(source: OverlaySource) {
+        const maxNativeZoom = source.maxZoom ?? consts.DEFAULT_MAX_TILE_ZOOM;
+        const options: leaflet.TileLayerOptions & {
+            bbox: typeof getWmsBbox;
+        } = {
+            maxZoom: this.settings.letZoomBeyondMax
+                ? consts.MAX_ZOOM
+                : maxNativeZoom,
+            maxNativeZoom: maxNativeZoom,
+            subdomains: consts.TILE_SUBDOMAINS,
+            // Used by the URL template of WMS overlays
+            bbox: getWmsBbox,
+        };
+        return this.createTileLayer(getOverlayUrlTemplate(source), options);
+    }
+
     createErrorTile() {
         const dpr = window.devicePixelRatio || 1;
         const tileSize = 256;
@@ -498,6 +636,8 @@ export class MapContainer {
     async refreshMap() {
         this.display?.tileLayer?.remove();
         this.display.tileLayer = null;
+        this.display.overlayLayers.forEach((layer) => layer.remove());
+        this.display.overlayLayers.clear();
         this.display?.map?.off();
         this.display?.map?.remove();
         this.display?.markers?.clear();
@@ -530,6 +670,7 @@ export class MapContainer {
 
         this.addZoomButtons();
         this.updateTileLayerByState(this.state);
+        this.updateOverlaysByState(this.state);
         this.display.clusterGroup = new leaflet.MarkerClusterGroup({
             maxClusterRadius:
                 this.settings.maxClusterRadiusPixels ??
@@ -538,6 +679,8 @@ export class MapContainer {
             chunkedLoading: true,
         });
         this.display.map.addLayer(this.display.clusterGroup);
+        this.display.geoJsonGroup = leaflet.layerGroup();
+        this.display.map.addLayer(this.display.geoJsonGroup);
 
         this.display.map.on('zoomend', async (event: leaflet.LeafletEvent) => {
             this.ongoingChanges -= 1;
@@ -547,6 +690,7 @@ export class MapContainer {
             });
             this.setHighlight(this.display.highlight);
             this.updateRealTimeLocationMarkers();
+            this.display.controls?.updateMarkerList();
         });
         this.display.map.on('moveend', async (event: leaflet.LeafletEvent) => {
             this.ongoingChanges -= 1;
@@ -556,6 +700,7 @@ export class MapContainer {
             });
             this.setHighlight(this.display.highlight);
             this.updateRealTimeLocationMarkers();
+            this.display.controls?.updateMarkerList();
         });
         this.display.map.on('movestart', (event: leaflet.LeafletEvent) => {
             this.ongoingChanges += 1;
@@ -598,6 +743,28 @@ export class MapContainer {
             this.display.map.addControl(this.display.realTimeControls);
         }
 
+        this.display.measureTool = new MeasureTool(this.display.map, () =>
+            this.display.measureControl?.update(this.display.measureTool),
+        );
+        if (this.viewSettings.showMeasureButton) {
+            this.display.measureControl = new MeasureControl(
+                { position: 'topright' },
+                this,
+            );
+            this.display.map.addControl(this.display.measureControl);
+        }
+
+        this.display.selectionTool = new SelectionTool(this.display.map, () =>
+            this.display.selectControl?.update(this.display.selectionTool),
+        );
+        if (this.viewSettings.showSelectButton) {
+            this.display.selectControl = new SelectControl(
+                { position: 'topright' },
+                this,
+            );
+            this.display.map.addControl(this.display.selectControl);
+        }
+
         if (this.settings.showClusterPreview) {
             this.display.clusterGroup.on('clustermouseover', (event) => {
                 if (!utils.isMobile(this.app))
@@ -632,6 +799,7 @@ export class MapContainer {
                     this,
                     this.settings,
                     this.app,
+                    this.plugin,
                 );
                 mapPopup.showAtPosition(event.originalEvent);
             },
@@ -686,12 +854,33 @@ export class MapContainer {
     ) {
         if (this.settings.debug) console.time('updateMarkersToState');
         let files = this.app.vault.getMarkdownFiles();
+        if (this.settings.loadGeoFiles)
+            files = files.concat(getGeoFiles(this.app));
         // Build the markers and filter them according to the query
         let newMarkers = await buildMarkers(files, this.settings, this.app);
         cacheTagsFromMarkers(newMarkers, this.plugin.allTags);
         try {
             newMarkers = this.filterMarkers(newMarkers, state.query);
             state.queryError = false;
+            this.timelineExtent = getTimelineExtent(
+                newMarkers,
+                this.settings,
+                this.app,
+            );
+            newMarkers = filterMarkersByTime(
+                newMarkers,
+                state,
+                this.settings,
+                this.app,
+            );
+            const reference = this.getReferencePoint();
+            this.nearestMarkersReference = reference?.location ?? null;
+            if (state.nearestCount > 0 && reference)
+                newMarkers = filterNearestMarkers(
+                    newMarkers,
+                    reference.location,
+                    state.nearestCount,
+                );
         } catch (e) {
             newMarkers = [];
             state.queryError = true;
@@ -737,7 +926,7 @@ export class MapContainer {
 
     filterMarkers(allMarkers: BaseGeoLayer[], queryString: string) {
         let results: BaseGeoLayer[] = [];
-        const query = new Query(this.app, queryString);
+        const query = new Query(this.app, queryString, this.settings);
         for (const marker of allMarkers)
             if (query.testMarker(marker)) results.push(marker);
         return results;
@@ -748,7 +937,7 @@ export class MapContainer {
      * Unchanged markers are not touched, new markers are created and old markers that are not in the updated list are removed.
      * Also, all the polylines (edge lines representing links) are cleared and redrawn, which is inefficient and can
      * be optimized in the future.
-     * @param newMarkers The new array of FileMarkers
+     * @param newMarkers The new array of FileMarkers and GeoJsonLayers
      */
     updateMapMarkers(newMarkers: BaseGeoLayer[]) {
         let newMarkersMap: MarkersMap = new Map();
@@ -776,10 +965,16 @@ export class MapContainer {
                         'already exists, please open an issue if you see this.',
                     );
                 newMarkersMap.set(marker.id, marker);
+            } else if (marker instanceof GeoJsonLayer) {
+                marker.geoLayer = this.newLeafletGeoJson(marker);
+                this.display.geoJsonGroup.addLayer(marker.geoLayer);
+                newMarkersMap.set(marker.id, marker);
             }
         }
         for (let [key, value] of this.display.markers) {
-            markersToRemove.push(value.geoLayer);
+            if (value instanceof GeoJsonLayer)
+                this.display.geoJsonGroup.removeLayer(value.geoLayer);
+            else markersToRemove.push(value.geoLayer);
             // Remove the edges that connect the markers we are removing, together with their polylines
             if (value instanceof FileMarker)
                 value.removeEdges(this.display.polylines);
@@ -788,6 +983,87 @@ export class MapContainer {
         this.display.clusterGroup.addLayers(markersToAdd);
         this.display.markers = newMarkersMap;
         this.buildPolylines();
+        this.updateDisplayMode();
+        this.updateItineraries();
+        this.display.selectionTool?.updateMarkers(this.display.markers);
+        this.display.controls?.updateMarkerList();
+    }
+
+    /**
+     * Redraw the itineraries of the notes that are in itinerary mode (see getItineraries).
+     * Itineraries are not shown in heatmap mode, where there are no individual markers to connect.
+     */
+    private updateItineraries() {
+        this.display.itineraryLayer?.remove();
+        this.display.itineraryLayer = null;
+        if (this.state.displayMode === 'heatmap') return;
+        const itineraries = getItineraries(
+            this.display.markers.values(),
+            this.state,
+            this.app,
+        );
+        if (itineraries.length === 0) return;
+        this.display.itineraryLayer = leaflet
+            .layerGroup(itineraries.map(createItineraryLayer))
+            .addTo(this.display.map);
+    }
+
+    /**
+     * Show either the cluster group (the regular markers) or the heatmap layer, according to the display mode
+     * of the state. The layers of geo files and inline paths are shown in both modes.
+     * The heatmap is rebuilt on every call since it's just a list of weighted points.
+     */
+    private updateDisplayMode() {
+        const map = this.display.map;
+        if (this.state.displayMode === 'heatmap') {
+            const points = this.getHeatmapPoints();
+            const maxWeight = points.reduce(
+                (max, point) => Math.max(max, point[2]),
+                1,
+            );
+            if (!this.display.heatLayer)
+                this.display.heatLayer = leaflet.heatLayer(points, {
+                    radius: consts.HEATMAP_RADIUS,
+                    blur: consts.HEATMAP_BLUR,
+                    max: maxWeight,
+                });
+            else {
+                this.display.heatLayer.setOptions({ max: maxWeight });
+                this.display.heatLayer.setLatLngs(points);
+            }
+            if (!map.hasLayer(this.display.heatLayer))
+                map.addLayer(this.display.heatLayer);
+            if (map.hasLayer(this.display.clusterGroup))
+                map.removeLayer(this.display.clusterGroup);
+        } else {
+            if (this.display.heatLayer && map.hasLayer(this.display.heatLayer))
+                map.removeLayer(this.display.heatLayer);
+            if (!map.hasLayer(this.display.clusterGroup))
+                map.addLayer(this.display.clusterGroup);
+        }
+    }
+
+    /**
+     * Returns the heatmap points of the currently displayed file markers as [lat, lng, weight] tuples.
+     * If the state defines a weight property, the weight of each marker is taken from this front matter property
+     * of its note, and markers that don't have a positive numeric value in it are left out.
+     */
+    private getHeatmapPoints(): leaflet.HeatLatLngTuple[] {
+        const weightProperty = this.state.heatmapWeightProperty?.trim();
+        let points: leaflet.HeatLatLngTuple[] = [];
+        for (const marker of this.display.markers.values()) {
+            if (!(marker instanceof FileMarker)) continue;
+            let weight = 1;
+            if (weightProperty) {
+                const frontMatter = this.app.metadataCache.getFileCache(
+                    marker.file,
+                )?.frontmatter;
+                weight = parseFloat(frontMatter?.[weightProperty]);
+                if (isNaN(weight) || weight <= 0) continue;
+            }
+            points.push([marker.location.lat, marker.location.lng, weight]);
+        }
+        return points;
     }
 
     /**
@@ -804,12 +1080,16 @@ export class MapContainer {
                         if (edge.polyline) {
                             continue;
                         }
-                        let polyline = leaflet.polyline(
-                            [edge.marker1.location, edge.marker2.location],
-                            {
-                                color: this.state.linkColor,
-                                weight: 1,
-                            },
+                        let polyline = createEdgePolyline(
+                            edge,
+                            getEdgeStyle(
+                                edge,
+                                this.settings.edgeStyleRules,
+                                this.state.linkColor,
+                            ),
+                            this.settings.showLinkLabels
+                                ? edge.alias
+                                : undefined,
                         );
                         edge.polyline = polyline;
                         polyline.addTo(this.display.map);
@@ -925,39 +1205,189 @@ export class MapContainer {
             if (newLng > consts.LNG_LIMITS[1]) {
                 newLng = consts.LNG_LIMITS[1];
             }
-            // We will now change the content of the note containing the marker. This will trigger Map View to rebuild
-            // the marker, causing the actual marker object to be replaced
-            if (marker.isFrontmatterMarker) {
-                await utils.verifyOrAddFrontMatter(
-                    this.app,
-                    marker.file,
-                    this.settings.frontMatterKey,
-                    `${newLat},${newLng}`,
-                    false,
-                );
-            } else if (marker.geolocationMatch?.groups) {
-                await utils.updateInlineGeolocation(
-                    this.app,
-                    marker.file,
-                    marker.fileLocation,
-                    marker.geolocationMatch,
-                    newLat,
-                    newLng,
+            await this.saveMarkerMove(marker, newLat, newLng);
+        });
+        newMarker.on('drag', (event: leaflet.LeafletMouseEvent) => {
+            if (
+                !(
+                    this.settings.snapMarkerMoves ??
+                    DEFAULT_SETTINGS.snapMarkerMoves
+                ) ||
+                event.originalEvent?.altKey
+            )
+                return;
+            const snapTarget = this.getSnapTarget(marker, event.latlng);
+            if (snapTarget) newMarker.setLatLng(snapTarget);
+        });
+        return newMarker;
+    }
+
+    /**
+     * Save a marker that was dragged to a new location into its note, and record the move so it can be undone.
+     * Changing the note triggers Map View to rebuild the marker, causing the actual marker object to be replaced.
+     */
+    private async saveMarkerMove(
+        marker: FileMarker,
+        newLat: number,
+        newLng: number,
+    ) {
+        const name = marker.extraName || marker.file.basename;
+        let move: MarkerMove = null;
+        if (marker.isFrontmatterMarker) {
+            const before = this.app.metadataCache.getFileCache(marker.file)
+                ?.frontmatter?.[this.settings.frontMatterKey];
+            const after = `${newLat},${newLng}`;
+            await utils.verifyOrAddFrontMatter(
+                this.app,
+                marker.file,
+                this.settings.frontMatterKey,
+                after,
+                false,
+            );
+            move = { file: marker.file, name, inline: false, before, after };
+        } else if (marker.geolocationMatch?.groups) {
+            const texts = await utils.updateInlineGeolocation(
+                this.app,
+                marker.file,
+                marker.fileLocation,
+                marker.geolocationMatch,
+                newLat,
+                newLng,
+            );
+            if (texts)
+                move = {
+                    file: marker.file,
+                    name,
+                    inline: true,
+                    fileLocation: marker.fileLocation,
+                    before: texts.oldText,
+                    after: texts.newText,
+                };
+        }
+        if (!move) return;
+        this.moveHistory.push(move);
+        new Notice(
+            createFragment((fragment) => {
+                fragment.appendText(
+                    `Map View: moved ${name} in ${marker.file.path}. `,
                 );
+                fragment
+                    .createEl('a', { text: 'Undo', href: '#' })
+                    .addEventListener('click', (ev: MouseEvent) => {
+                        ev.preventDefault();
+                        this.undoMarkerMove();
+                    });
+            }),
+            consts.MARKER_MOVE_NOTICE_MS,
+        );
+    }
+
+    async undoMarkerMove() {
+        try {
+            const move = await this.moveHistory.undo(this.app, this.settings);
+            if (move) new Notice(`Map View: undid the move of ${move.name}`);
+            else new Notice('Map View: no marker move to undo');
+        } catch (e) {
+            new Notice(`Map View: cannot undo, ${e.message}`);
+        }
+    }
+
+    async redoMarkerMove() {
+        try {
+            const move = await this.moveHistory.redo(this.app, this.settings);
+            if (move) new Notice(`Map View: moved ${move.name} again`);
+            else new Notice('Map View: no marker move to redo');
+        } catch (e) {
+            new Notice(`Map View: cannot redo, ${e.message}`);
+        }
+    }
+
+    /**
+     * Returns a location that a marker being dragged to the given location should snap to, i.e. the search result or
+     * another marker if one of them is close enough on the screen, or null if there's none
+     */
+    private getSnapTarget(
+        draggedMarker: FileMarker,
+        location: leaflet.LatLng,
+    ): leaflet.LatLng | null {
+        const map = this.display.map;
+        const point = map.latLngToContainerPoint(location);
+        const bounds = map.getBounds();
+        let candidates: leaflet.LatLng[] = [];
+        if (this.display.searchResult)
+            candidates.push(this.display.searchResult.getLatLng());
+        for (const marker of this.display.markers.values())
+            if (
+                marker instanceof FileMarker &&
+                marker !== draggedMarker &&
+                bounds.contains(marker.location)
+            )
+                candidates.push(marker.location);
+        let best: leaflet.LatLng = null;
+        let bestDistance = consts.MARKER_SNAP_DISTANCE_PIXELS;
+        for (const candidate of candidates) {
+            const distance = point.distanceTo(
+                map.latLngToContainerPoint(candidate),
+            );
+            if (distance <= bestDistance) {
+                best = candidate;
+                bestDistance = distance;
             }
+        }
+        return best;
+    }
+
+    /**
+     * Create the Leaflet layer of a GeoJsonLayer (e.g. a GPX track), which opens its source file when clicked
+     */
+    private newLeafletGeoJson(layer: GeoJsonLayer): leaflet.GeoJSON {
+        const color = layer.color ?? consts.DEFAULT_GEOJSON_COLOR;
+        const name = layer.extraName ?? layer.file.name;
+        const geoJson = leaflet.geoJSON(layer.geojson, {
+            style: { color, weight: 3 },
+            // Points are drawn as small circles rather than full markers, and are not clustered (see geoJsonGroup)
+            pointToLayer: (_feature, latlng) =>
+                leaflet.circleMarker(latlng, {
+                    radius: 5,
+                    color,
+                    fillOpacity: 0.8,
+                }),
+            onEachFeature: (feature, featureLayer) => {
+                const featureName = feature.properties?.name;
+                featureLayer.bindTooltip(
+                    featureName ? `${featureName} (${name})` : name,
+                    { sticky: true },
+                );
+            },
         });
-        return newMarker;
+        geoJson.on('click', (event: leaflet.LeafletMouseEvent) => {
+            this.goToMarker(
+                layer,
+                utils.mouseEventToOpenMode(
+                    this.settings,
+                    event.originalEvent,
+                    'openNote',
+                ),
+                true,
+            );
+        });
+        geoJson.on('contextmenu', (event: leaflet.LeafletMouseEvent) => {
+            // Don't let the map open its own context menu
+            leaflet.DomEvent.stopPropagation(event);
+            this.openMarkerContextMenu(layer, geoJson, event.originalEvent);
+        });
+        return geoJson;
     }
 
     private openMarkerContextMenu(
         marker: BaseGeoLayer,
-        mapMarker: leaflet.Marker,
+        mapMarker: leaflet.Layer,
         ev: MouseEvent,
     ) {
         this.setHighlight(mapMarker);
         let mapPopup = new Menu();
+        menus.populateOpenNote(this, marker, mapPopup, this.settings);
         if (marker instanceof FileMarker) {
-            menus.populateOpenNote(this, marker, mapPopup, this.settings);
             menus.populateMoveMarker(mapPopup, marker, this.plugin);
             menus.populateRouting(
                 this,
@@ -1173,12 +1603,12 @@ export class MapContainer {
 
     /**
      * Open and go to the editor location represented by the marker
-     * @param marker The FileMarker to open
+     * @param marker The marker or geographic layer to open
      * @param openBehavior the required type of action
      * @param highlight If true will highlight the line
      */
     async goToMarker(
-        marker: FileMarker,
+        marker: BaseGeoLayer,
         openBehavior: OpenBehavior,
         highlight: boolean,
     ) {
@@ -1275,6 +1705,7 @@ export class MapContainer {
                 this,
                 this.settings,
                 this.app,
+                this.plugin,
             );
             mapPopup.showAtPosition(event.originalEvent);
         });
@@ -1282,6 +1713,17 @@ export class MapContainer {
         this.goToSearchResult(details.location, marker, keepZoom);
     }
 
+    /** Pan and zoom the map to a marker or a geographic layer, and highlight it */
+    zoomToMarker(marker: BaseGeoLayer) {
+        if (marker instanceof FileMarker)
+            this.goToSearchResult(marker.location, marker);
+        else
+            this.display.map.fitBounds(
+                leaflet.latLngBounds(marker.getBounds()),
+                { maxZoom: this.settings.zoomOnGoFromNote },
+            );
+    }
+
     goToSearchResult(
         location: leaflet.LatLng,
         marker: FileMarker | leaflet.Marker,
@@ -1317,6 +1759,45 @@ export class MapContainer {
             this.display.searchControls.openSearch(this.display.markers);
     }
 
+    /** Open a dialog to export the markers currently on the map (i.e. that pass the filters) to a file */
+    openExportDialog() {
+        const dialog = new SvelteModal(
+            ExportDialog,
+            this.app,
+            this.plugin,
+            this.settings,
+            { markers: Array.from(this.display.markers.values()) },
+        );
+        dialog.open();
+    }
+
+    /**
+     * Start selecting markers by dragging a rectangle or a lasso on the map, for bulk actions on the selected markers
+     */
+    startSelection() {
+        this.display.selectionTool.start();
+    }
+
+    stopSelection() {
+        this.display.selectionTool.stop();
+    }
+
+    openSelectionDialog() {
+        const markers = this.display.selectionTool.selected;
+        if (markers.length === 0) return;
+        const dialog = new SvelteModal(
+            SelectionDialog,
+            this.app,
+            this.plugin,
+            this.settings,
+            {
+                markers,
+                afterChange: () => this.display.selectionTool.clear(),
+            },
+        );
+        dialog.open();
+    }
+
     setHighlight(mapOrFileMarker: leaflet.Layer | BaseGeoLayer) {
         // The Marker object that should be highlighted
         let highlight: leaflet.Layer = mapOrFileMarker
@@ -1401,6 +1882,7 @@ export class MapContainer {
                     this,
                     this.settings,
                     this.app,
+                    this.plugin,
                 );
                 mapPopup.showAtPosition(event.originalEvent);
             },
@@ -1429,6 +1911,7 @@ export class MapContainer {
         if (!isSame(location, this.lastRealTimeLocation) || forceRefresh) {
             this.lastRealTimeLocation = location;
             this.updateRealTimeLocationMarkers();
+            if (!this.display.routingSource) this.onReferencePointChange();
             if (location) {
                 // If there's a real location (contrary to clearing an existing location), update the view
                 let newState: Partial<MapState> = {};
@@ -1477,6 +1960,167 @@ export class MapContainer {
                 },
             );
         }
+        this.onReferencePointChange();
+    }
+
+    /**
+     * Returns the point that marker distances and bearings are measured from, which is the routing source if one
+     * is set, or otherwise the last known real-time location. Returns null if there is neither.
+     */
+    getReferencePoint(): ReferencePoint | null {
+        if (this.display.routingSource)
+            return {
+                location: this.display.routingSource.getLatLng(),
+                name: 'routing source',
+            };
+        if (this.lastRealTimeLocation)
+            return {
+                location: this.lastRealTimeLocation.center,
+                name: 'your location',
+            };
+        return null;
+    }
+
+    // When the reference point moves, the nearest markers may change, and otherwise just the listed distances do.
+    // Since GPS locations are updated often, the markers are rebuilt only if the reference point moved noticeably
+    private onReferencePointChange() {
+        const location = this.getReferencePoint()?.location ?? null;
+        const previous = this.nearestMarkersReference;
+        const moved =
+            location && previous
+                ? location.distanceTo(previous) >=
+                  consts.NEAREST_MARKERS_UPDATE_METERS
+                : location !== previous;
+        if (this.state.nearestCount > 0 && moved)
+            this.updateMarkersToState(this.state, true);
+        else this.display.controls?.updateMarkerList();
+    }
+
+    /**
+     * Start measuring distances and areas on the map. Every click on the map adds a point to the measured shape.
+     * @param firstPoint An optional first point of the shape
+     */
+    startMeasure(firstPoint?: leaflet.LatLng) {
+        this.display.measureTool.start(firstPoint);
+    }
+
+    stopMeasure() {
+        this.display.measureTool.stop();
+    }
+
+    /**
+     * Insert the measured shape into the last active note as an inline path or area, at the cursor position
+     */
+    async saveMeasurementToNote() {
+        const tool = this.display.measureTool;
+        if (tool.numPoints < 2) {
+            new Notice(
+                'Map View: nothing to save, add measurement points first.',
+            );
+            return;
+        }
+        const area = tool.getArea();
+        const name =
+            area !== null
+                ? `Area ${utils.formatArea(area)}`
+                : `Path ${utils.formatDistance(tool.getDistance())}`;
+        await this.insertIntoLastActiveNote(
+            tool.toInlineGeolink(name),
+            'measurement',
+        );
+    }
+
+    /**
+     * Insert inline geo content (e.g. a path) into the last active note at the cursor position, making sure the
+     * note is marked as having inline locations.
+     * @param what A description of the content for the notices shown to the user
+     */
+    private async insertIntoLastActiveNote(text: string, what: string) {
+        const leaf = utils.getLastUsedValidMarkdownLeaf();
+        const editor = leaf ? utils.getEditor(this.app, leaf) : null;
+        const file = leaf ? utils.getFile(this.app, leaf) : null;
+        if (!editor || !file) {
+            new Notice(`Map View: open a note to save the ${what} to.`);
+            return;
+        }
+        editor.replaceSelection(text);
+        await utils.verifyOrAddFrontMatterForInline(
+            this.app,
+            editor,
+            file,
+            this.settings,
+        );
+        new Notice(`Map View: ${what} saved to ${file.basename}.`);
+    }
+
+    /**
+     * Calculate a route from the routing source to the given destination using the configured routing engine,
+     * and show it on the map with its distance and duration.
+     */
+    async showRoute(destination: leaflet.LatLng) {
+        if (!this.display.routingSource) return;
+        let route: Route;
+        try {
+            route = await getRoute(
+                this.display.routingSource.getLatLng(),
+                destination,
+                this.settings,
+            );
+        } catch (e) {
+            new Notice(`Map View: cannot calculate route. ${e.message}`);
+            return;
+        }
+        this.removeRoute();
+        this.display.route = route;
+        this.display.routeLayer = leaflet
+            .geoJSON(route.geometry, {
+                style: { className: 'mv-route', weight: 5, opacity: 0.8 },
+            })
+            .bindTooltip(this.getRouteDescription(route), { sticky: true })
+            .addTo(this.display.map);
+        this.display.routeLayer.on(
+            'contextmenu',
+            (ev: leaflet.LeafletMouseEvent) => {
+                leaflet.DomEvent.stopPropagation(ev);
+                let routePopup = new Menu();
+                routePopup.addItem((item: MenuItem) => {
+                    item.setTitle('Save route to note');
+                    item.setIcon('save');
+                    item.onClick(() => this.saveRouteToNote());
+                });
+                routePopup.addItem((item: MenuItem) => {
+                    item.setTitle('Remove route');
+                    item.setIcon('trash');
+                    item.onClick(() => this.removeRoute());
+                });
+                routePopup.showAtPosition(ev.originalEvent);
+            },
+        );
+    }
+
+    removeRoute() {
+        this.display.routeLayer?.remove();
+        this.display.routeLayer = null;
+        this.display.route = null;
+    }
+
+    private getRouteDescription(route: Route) {
+        return `${utils.formatDistance(route.distance)}, ${utils.formatDuration(route.duration)}`;
+    }
+
+    /** Insert the current route into the last active note as a fenced GeoJSON block */
+    async saveRouteToNote() {
+        const route = this.display.route;
+        if (!route) return;
+        const feature = {
+            type: 'Feature',
+            properties: { name: `Route ${this.getRouteDescription(route)}` },
+            geometry: route.geometry,
+        };
+        await this.insertIntoLastActiveNote(
+            `\n\`\`\`geojson\n${JSON.stringify(feature)}\n\`\`\`\n`,
+            'route',
+        );
     }
 
     setLock(lock: boolean) {
@@ -1524,8 +2168,15 @@ export class MapContainer {
         }
     }
 
-    startHoverHighlight(markerToFocus: FileMarker) {
-        if (!this.state.showLinks) return;
+    /**
+     * Fade all the markers except the given one and the markers it's linked to
+     * @param evenWithoutLinks Highlight the marker even if links are not shown, e.g. when hovering it in the marker list
+     */
+    startHoverHighlight(
+        markerToFocus: FileMarker,
+        evenWithoutLinks: boolean = false,
+    ) {
+        if (!this.state.showLinks && !evenWithoutLinks) return;
         this.display.mapDiv.addClass('mv-fade-active');
         for (const marker of this.display.markers.values()) {
             if (
@@ -26,6 +26,27 @@ export type MapState = {
     linkColor: string;
     /** Marker labels */
     markerLabels: 'off' | 'left' | 'right';
+    /** Whether to show the markers as individual markers or as a heatmap */
+    displayMode: 'markers' | 'heatmap';
+    /** A front matter property to weigh heatmap points by (an empty string means equal weights) */
+    heatmapWeightProperty: string;
+    /** The start of the timeline range as YYYY-MM-DD (an empty string means no lower bound) */
+    timeFrom: string;
+    /** The end of the timeline range as YYYY-MM-DD (an empty string means no upper bound) */
+    timeTo: string;
+    /** Only show this number of markers that are nearest to the routing source or GPS location (0 means all) */
+    nearestCount: number;
+    /** Whether to connect the inline locations of each note in document order, as an itinerary */
+    itinerary: boolean;
+    /** The overlay layers to display on top of the map source, from bottom to top */
+    overlays: OverlayState[];
+};
+
+export type OverlayState = {
+    /** The index of the overlay in the overlay sources of the settings */
+    source: number;
+    /** Between 0 and 1 */
+    opacity: number;
 };
 
 /** Fields that are deprecated */
@@ -87,7 +108,16 @@ export function areStatesEqual(
         state1.linkColor == state2.linkColor &&
         state1.showLinks == state2.showLinks &&
         state1.followActiveNote == state2.followActiveNote &&
-        (state1.markerLabels || 'off') == (state2.markerLabels || 'off')
+        (state1.markerLabels || 'off') == (state2.markerLabels || 'off') &&
+        (state1.displayMode || 'markers') ==
+            (state2.displayMode || 'markers') &&
+        (state1.heatmapWeightProperty || '') ==
+            (state2.heatmapWeightProperty || '') &&
+        (state1.timeFrom || '') == (state2.timeFrom || '') &&
+        (state1.timeTo || '') == (state2.timeTo || '') &&
+        (state1.nearestCount || 0) == (state2.nearestCount || 0) &&
+        (state1.itinerary || false) == (state2.itinerary || false) &&
+        overlaysToString(state1.overlays) == overlaysToString(state2.overlays)
     );
 }
 
@@ -104,10 +134,45 @@ export function stateToRawObject(state: MapState) {
         showLinks: state.showLinks,
         linkColor: state.linkColor,
         markerLabels: state.markerLabels,
+        // Newer fields are written only when they are set, to keep existing code blocks and URLs short
+        ...(state.displayMode &&
+            state.displayMode !== 'markers' && {
+                displayMode: state.displayMode,
+            }),
+        ...(state.heatmapWeightProperty && {
+            heatmapWeightProperty: state.heatmapWeightProperty,
+        }),
+        ...(state.timeFrom && { timeFrom: state.timeFrom }),
+        ...(state.timeTo && { timeTo: state.timeTo }),
+        ...(state.nearestCount && { nearestCount: state.nearestCount }),
+        ...(state.itinerary && { itinerary: state.itinerary }),
+        ...(state.overlays?.length > 0 && {
+            overlays: overlaysToString(state.overlays),
+        }),
         ...(state.embeddedHeight && { embeddedHeight: state.embeddedHeight }),
     };
 }
 
+/** Overlays are saved in URLs and code blocks as a string such as '1:0.6,3:1' of sources and opacities */
+export function overlaysToString(overlays: OverlayState[]) {
+    return (overlays ?? [])
+        .map((overlay) => `${overlay.source}:${overlay.opacity}`)
+        .join(',');
+}
+
+export function overlaysFromString(value: string): OverlayState[] {
+    // A single overlay may be parsed from a code block as a number
+    return String(value)
+        .split(',')
+        .map((item) => item.split(':'))
+        .filter(([source]) => source.trim().length > 0)
+        .map(([source, opacity]) => ({
+            source: parseInt(source),
+            opacity: opacity != null ? parseFloat(opacity) : 1,
+        }))
+        .filter((overlay) => !isNaN(overlay.source) && !isNaN(overlay.opacity));
+}
+
 export function stateToUrl(state: MapState) {
     return queryString.stringify(stateToRawObject(state));
 }
@@ -131,6 +196,19 @@ export function stateFromParsedUrl(obj: any) {
         showLinks: obj.showLinks != null ? obj.showLinks === 'true' : false,
         linkColor: obj?.linkColor,
         markerLabels: obj?.markerLabels,
+        displayMode: obj?.displayMode,
+        heatmapWeightProperty: obj?.heatmapWeightProperty,
+        timeFrom: obj?.timeFrom,
+        timeTo: obj?.timeTo,
+        nearestCount:
+            obj?.nearestCount != null ? parseInt(obj.nearestCount) : null,
+        // A boolean in code blocks and a string in URLs
+        itinerary:
+            obj?.itinerary != null
+                ? obj.itinerary === true || obj.itinerary === 'true'
+                : null,
+        overlays:
+            obj?.overlays != null ? overlaysFromString(obj.overlays) : null,
         ...(obj.embeddedHeight && {
             embeddedHeight: parseInt(obj.embeddedHeight),
         }),
@@ -32,15 +32,58 @@ export function getIconFromRules(
     tags: string[],
     rules: MarkerIconRule[],
     iconFactory: IconFactory,
+    testQueryRule?: (ruleName: string) => boolean,
 ) {
+    return getIconFromOptions(
+        getIconOptionsFromRules(tags, rules, testQueryRule),
+        iconFactory,
+    );
+}
+
+/**
+ * Calculate the icon options of a marker by applying the matching rules.
+ * @param tags The tags of the marker, for tag rules
+ * @param rules The marker icon rules
+ * @param testQueryRule A function that tests the marker against a query rule (see isQueryRule). If not given,
+ * query rules are never matched
+ */
+export function getIconOptionsFromRules(
+    tags: string[],
+    rules: MarkerIconRule[],
+    testQueryRule?: (ruleName: string) => boolean,
+): IconOptions {
     // We iterate over the rules and apply them one by one, so later rules override earlier ones
     let result = rules.find((item) => item.ruleName === 'default').iconDetails;
     for (const rule of rules) {
-        if (checkTagPatternMatch(rule.ruleName, tags)) {
+        const matches = isQueryRule(rule.ruleName)
+            ? (testQueryRule?.(rule.ruleName) ?? false)
+            : checkTagPatternMatch(rule.ruleName, tags);
+        if (matches) {
             result = Object.assign({}, result, rule.iconDetails);
         }
     }
-    return getIconFromOptions(result, iconFactory);
+    return result;
+}
+
+// The operators of map queries (see query.ts), which tell query rules apart from tag patterns
+const QUERY_RULE_OPERATOR =
+    /\b(tag|name|path|linkedto|linkedfrom|lines|near|within|bbox):|\[/;
+
+/**
+ * A rule name with query syntax is a map query, e.g. '[status:visited]' or 'path:"Trips/2024"'.
+ * Any other rule name is a tag pattern, e.g. '#food*' or '*food*'.
+ */
+export function isQueryRule(ruleName: string): boolean {
+    return QUERY_RULE_OPERATOR.test(ruleName);
+}
+
+/**
+ * Convert a marker color, which can be one of the Leaflet Extra Markers color names (e.g. 'orange-dark'),
+ * to a color that can be used in CSS, e.g. for drawing shapes.
+ */
+export function markerColorToCss(markerColor: string): string {
+    if (!markerColor) return null;
+    return markerColor.replace(/-(dark|light)$/, '');
 }
 
 export function getIconFromOptions(
@@ -0,0 +1,126 @@
+import { App, TFile } from 'obsidian';
+import { type PluginSettings } from 'src/settings';
+import * as consts from 'src/consts';
+
+/**
+ * A marker move that was saved to its note, with what's needed to revert it.
+ * Inline locations keep the geolink text before and after the move (so the original formatting is restored on
+ * undo), and front matter locations keep the value of the front matter key.
+ */
+export type MarkerMove = {
+    file: TFile;
+    /** The name of the marker, for notices */
+    name: string;
+} & (
+    | {
+          inline: false;
+          before: FrontMatterLocation;
+          after: FrontMatterLocation;
+      }
+    | {
+          inline: true;
+          /** Where in the note the geolink is */
+          fileLocation: number;
+          before: string;
+          after: string;
+      }
+);
+
+/** The value of a front matter location, either a `lat,lng` string or a `[lat, lng]` array (the V1 format) */
+type FrontMatterLocation = string | (string | number)[];
+
+/** The undo and redo stacks of marker moves */
+export class MoveHistory {
+    private undoStack: MarkerMove[] = [];
+    private redoStack: MarkerMove[] = [];
+
+    get canUndo() {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo() {
+        return this.redoStack.length > 0;
+    }
+
+    push(move: MarkerMove) {
+        this.undoStack.push(move);
+        if (this.undoStack.length > consts.MAX_MARKER_MOVE_HISTORY)
+            this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    /**
+     * Revert the last move in its note.
+     * Throws an error if the location was changed in the note since it was moved, in which case the move is dropped
+     * from the history.
+     * @returns The reverted move, or null if there is nothing to undo
+     */
+    async undo(app: App, settings: PluginSettings): Promise<MarkerMove> {
+        const move = this.undoStack.pop();
+        if (!move) return null;
+        await setMoveLocation(move, true, app, settings);
+        this.redoStack.push(move);
+        return move;
+    }
+
+    /** Re-apply the last undone move. See undo */
+    async redo(app: App, settings: PluginSettings): Promise<MarkerMove> {
+        const move = this.redoStack.pop();
+        if (!move) return null;
+        await setMoveLocation(move, false, app, settings);
+        this.undoStack.push(move);
+        return move;
+    }
+}
+
+/**
+ * Write the location of a move into its note
+ * @param revert Whether to write the location before the move (to undo it) or after it (to redo it)
+ */
+async function setMoveLocation(
+    move: MarkerMove,
+    revert: boolean,
+    app: App,
+    settings: PluginSettings,
+) {
+    const changedError = new Error(
+        `the location of ${move.name} was changed in ${move.file.path}`,
+    );
+    if (!move.inline) {
+        const from = revert ? move.after : move.before;
+        const to = revert ? move.before : move.after;
+        await app.fileManager.processFrontMatter(move.file, (frontmatter) => {
+            // Compared as strings, so a `[lat, lng]` array matches whether YAML read its items as numbers or strings
+            if (String(frontmatter[settings.frontMatterKey]) !== String(from))
+                throw changedError;
+            // If the location was missing before the move, undoing removes it rather than writing an empty value
+            if (to == null) delete frontmatter[settings.frontMatterKey];
+            else frontmatter[settings.frontMatterKey] = to;
+        });
+        return;
+    }
+    const from = revert ? move.after : move.before;
+    const to = revert ? move.before : move.after;
+    await app.vault.process(move.file, (content) => {
+        // Edits elsewhere in the note may have shifted the geolink, so we look for the occurrence of its text that
+        // is closest to where it was
+        let bestIndex = -1;
+        for (
+            let index = content.indexOf(from);
+            index >= 0;
+            index = content.indexOf(from, index + 1)
+        )
+            if (
+                bestIndex < 0 ||
+                Math.abs(index - move.fileLocation) <
+                    Math.abs(bestIndex - move.fileLocation)
+            )
+                bestIndex = index;
+        if (bestIndex < 0) throw changedError;
+        return (
+            content.substring(0, bestIndex) +
+            to +
+            content.substring(bestIndex + from.length)
+        );
+    });
+}
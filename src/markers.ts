@@ -8,17 +8,24 @@ import {
     parseLinktext,
     resolveSubpath,
     type FrontmatterLinkCache,
+    type CachedMetadata,
 } from 'obsidian';
 import * as leaflet from 'leaflet';
+import type { Feature, FeatureCollection } from 'geojson';
 import 'leaflet-extra-markers';
 import 'leaflet-extra-markers/dist/css/leaflet.extra-markers.min.css';
 
 import { type PluginSettings } from 'src/settings';
 import {
-    getIconFromRules,
+    getIconFromOptions,
+    getIconOptionsFromRules,
+    isQueryRule,
+    markerColorToCss,
     IconFactory,
     type IconOptions,
 } from 'src/markerIcons';
+import { isGeoFile, loadGeoFile, toFeatureCollection } from 'src/geoFiles';
+import { Query } from 'src/query';
 import { type MapState } from 'src/mapState';
 import * as consts from 'src/consts';
 import * as regex from 'src/regex';
@@ -40,15 +47,19 @@ export class Edge {
     /** The leaflet polyline of the edge. An edge may exist only logically without a polyline (after being generated
      * from the map markers) */
     public polyline?: leaflet.Polyline;
+    /** The alias of the link that the edge represents, e.g. 'flew to' for [[Paris|flew to]], if it has one */
+    public alias?: string;
 
     constructor(
         marker1: FileMarker,
         marker2: FileMarker,
         polyline: leaflet.Polyline = null,
+        alias?: string,
     ) {
         this.marker1 = marker1;
         this.marker2 = marker2;
         this.polyline = polyline;
+        this.alias = alias;
     }
 }
 
@@ -74,6 +85,8 @@ export abstract class BaseGeoLayer {
     public extraName?: string;
     /** Tags that this marker includes */
     public tags: string[] = [];
+    /** Icon details that the note declares for this specific marker, overriding the marker icon rules */
+    public iconOverride?: IconOptions;
 
     /**
      * Construct a new BaseGeoLayer object
@@ -83,6 +96,11 @@ export abstract class BaseGeoLayer {
         this.file = file;
     }
 
+    /** True if this layer represents a whole file rather than a location within it */
+    get isFrontmatterMarker(): boolean {
+        return !this.fileLine;
+    }
+
     // /**
     //  * Init the leaflet geographic layer from the data
     //  * @param map
@@ -122,10 +140,6 @@ export class FileMarker extends BaseGeoLayer {
         this.generateId();
     }
 
-    get isFrontmatterMarker(): boolean {
-        return !this.fileLine;
-    }
-
     // Important note: an Edge(u, v) object exists both in the list of u and in the list of v
     get edges(): Edge[] {
         return this._edges;
@@ -204,6 +218,56 @@ export class FileMarker extends BaseGeoLayer {
     }
 }
 
+/** A geographic layer built from GeoJSON data, e.g. a GeoJSON, GPX or KML file in the vault, or an inline path or area in a note */
+export class GeoJsonLayer extends BaseGeoLayer {
+    public geoLayer?: leaflet.GeoJSON;
+    public geojson: FeatureCollection;
+    /** The color to draw the layer with, as a CSS color */
+    public color?: string;
+    private contentHash: string;
+    private bounds: leaflet.LatLngBounds = null;
+
+    /**
+     * Construct a new GeoJsonLayer object
+     * @param file The file the data comes from
+     * @param geojson The GeoJSON data
+     * @param contentHash A hash of the data if it is already known, e.g. of a cached file
+     */
+    constructor(file: TFile, geojson: FeatureCollection, contentHash?: string) {
+        super(file);
+        this.layerType = 'geojson';
+        this.geojson = geojson;
+        this.contentHash = contentHash ?? djb2Hash(JSON.stringify(geojson));
+        this.generateId();
+    }
+
+    isSame(other: BaseGeoLayer): boolean {
+        return (
+            other instanceof GeoJsonLayer &&
+            this.file.path === other.file.path &&
+            this.fileLocation === other.fileLocation &&
+            this.contentHash === other.contentHash &&
+            this.extraName === other.extraName &&
+            this.color === other.color
+        );
+    }
+
+    generateId() {
+        this.id =
+            djb2Hash(this.file.path) +
+            'geojson-' +
+            (this.fileLocation ?? 'file');
+    }
+
+    getBounds(): leaflet.LatLng[] {
+        // The bounds are used repeatedly (e.g. by spatial queries) so they are calculated only once
+        if (!this.bounds)
+            this.bounds = leaflet.geoJSON(this.geojson).getBounds();
+        if (!this.bounds.isValid()) return [];
+        return [this.bounds.getSouthWest(), this.bounds.getNorthEast()];
+    }
+}
+
 export function generateMarkerId(
     fileName: string,
     lat: string,
@@ -227,7 +291,8 @@ export function generateMarkerId(
 export type MarkersMap = Map<MarkerId, BaseGeoLayer>;
 
 /**
- * Create a FileMarker for every front matter and inline geolocation in the given file.
+ * Create a FileMarker for every front matter and inline geolocation in the given file, or a GeoJsonLayer
+ * if the file is a GeoJSON, GPX or KML file.
  * Properties that are not essential for filtering, e.g. marker icons, are not created here yet.
  * @param mapToAppendTo The list of markers to append to
  * @param file The file object to parse
@@ -242,6 +307,20 @@ export async function buildAndAppendFileMarkers(
     app: App,
     skipMetadata?: boolean,
 ) {
+    if (isGeoFile(file)) {
+        if (settings.loadGeoFiles) {
+            const geoFile = await loadGeoFile(file, app);
+            if (geoFile)
+                mapToAppendTo.push(
+                    new GeoJsonLayer(
+                        file,
+                        geoFile.geojson,
+                        geoFile.contentHash,
+                    ),
+                );
+        }
+        return;
+    }
     const fileCache = app.metadataCache.getFileCache(file);
     const frontMatter = fileCache?.frontmatter;
     const tagNameToSearch = settings.tagForGeolocationNotes?.trim();
@@ -252,6 +331,7 @@ export async function buildAndAppendFileMarkers(
                 verifyLocation(location);
                 let marker = new FileMarker(file, location);
                 marker.tags = getAllTags(fileCache);
+                marker.iconOverride = getFrontMatterIconOverride(frontMatter);
                 mapToAppendTo.push(marker);
             }
         }
@@ -271,7 +351,7 @@ export async function buildAndAppendFileMarkers(
 }
 
 /**
- * Create FileMarker instances for all the files in the given list
+ * Create FileMarker and GeoJsonLayer instances for all the files in the given list
  * @param files The list of file objects to find geolocations in.
  * @param settings The plugin settings
  * @param app The Obsidian App instance
@@ -302,19 +382,66 @@ export function finalizeMarkers(
     iconFactory: IconFactory,
     app: App,
 ) {
+    // Compile the query rules once rather than per marker
+    let ruleQueries: Map<string, Query> = new Map();
+    for (const rule of settings.markerIconRules) {
+        if (isQueryRule(rule.ruleName) && !ruleQueries.has(rule.ruleName)) {
+            try {
+                ruleQueries.set(
+                    rule.ruleName,
+                    new Query(app, rule.ruleName, settings),
+                );
+            } catch (e) {
+                console.log(
+                    `Map View: invalid query in marker icon rule ${rule.ruleName}`,
+                    e,
+                );
+            }
+        }
+    }
+    const queryRuleTester = (marker: BaseGeoLayer) => (ruleName: string) => {
+        try {
+            return ruleQueries.get(ruleName)?.testMarker(marker) ?? false;
+        } catch (e) {
+            return false;
+        }
+    };
     for (const marker of markers) {
-        if (marker instanceof FileMarker) {
-            marker.icon = getIconFromRules(
+        const iconOptions = Object.assign(
+            {},
+            getIconOptionsFromRules(
                 marker.tags,
                 settings.markerIconRules,
-                iconFactory,
-            );
+                queryRuleTester(marker),
+            ),
+            marker.iconOverride,
+        );
+        if (marker instanceof FileMarker) {
+            marker.icon = getIconFromOptions(iconOptions, iconFactory);
+        } else if (marker instanceof GeoJsonLayer) {
+            marker.color = markerColorToCss(iconOptions.markerColor);
         } else {
             throw 'Unsupported object type ' + marker.constructor.name;
         }
     }
 }
 
+/**
+ * Get the icon details that a note declares in its front matter (see FRONT_MATTER_ICON_KEY), either as
+ * an icon name or as icon options, e.g. `{icon: fa-flag, color: red}`.
+ * 'color' is accepted as a shorthand for 'markerColor'.
+ */
+export function getFrontMatterIconOverride(
+    frontMatter: Record<string, any>,
+): IconOptions | undefined {
+    const details = frontMatter?.[consts.FRONT_MATTER_ICON_KEY];
+    if (!details) return undefined;
+    if (typeof details === 'string') return { icon: details };
+    if (typeof details !== 'object' || Array.isArray(details)) return undefined;
+    const { color, ...options } = details;
+    return color ? { ...options, markerColor: color } : options;
+}
+
 /**
  * Make sure that the coordinates are valid world coordinates
  * -90 <= latitude <= 90 and -180 <= longitude <= 180
@@ -348,7 +475,96 @@ export function matchInlineLocation(content: string): RegExpMatchArray[] {
 }
 
 /**
- * Build markers from inline locations in the file body.
+ * Find all inline paths and areas in a string, i.e. multi-point geolinks and fenced GeoJSON blocks
+ * @param content The file contents to find the geometries in
+ */
+export function matchInlineGeometry(content: string): RegExpMatchArray[] {
+    const matches1 = content.matchAll(regex.INLINE_GEOMETRY_WITH_TAGS);
+    const matches2 = content.matchAll(regex.INLINE_GEOJSON_BLOCK);
+    return Array.from(matches1).concat(Array.from(matches2));
+}
+
+/**
+ * Convert an inline geometry match (see matchInlineGeometry) to GeoJSON.
+ * A multi-point geolink is a path, unless its last point equals the first, which makes it an area.
+ */
+export function inlineGeometryToGeoJson(
+    match: RegExpMatchArray,
+): FeatureCollection {
+    if (match.groups.geojson) {
+        return toFeatureCollection(JSON.parse(match.groups.geojson));
+    }
+    const points: [number, number][] = match.groups.coordinates
+        .split(';')
+        .map((pair) => {
+            const [lat, lng] = pair.split(',').map((n) => parseFloat(n));
+            const location = new leaflet.LatLng(lat, lng);
+            verifyLocation(location);
+            // GeoJSON positions are in lng,lat order
+            return [lng, lat];
+        });
+    const first = points[0];
+    const last = points[points.length - 1];
+    const isArea =
+        points.length >= 4 && first[0] === last[0] && first[1] === last[1];
+    const name = match.groups.name;
+    return toFeatureCollection({
+        type: 'Feature',
+        properties: name?.length > 0 ? { name } : {},
+        geometry: isArea
+            ? { type: 'Polygon', coordinates: [points] }
+            : { type: 'LineString', coordinates: points },
+    } as Feature);
+}
+
+/**
+ * Set the details that all inline geo layers share (tags, position in the file etc) according to the match
+ * they were created from.
+ */
+function setInlineLayerDetails(
+    layer: BaseGeoLayer,
+    match: RegExpMatchArray,
+    content: string,
+    metadata: CachedMetadata,
+    fileTags: string[],
+) {
+    if (match.groups.name && match.groups.name.length > 0)
+        layer.extraName = match.groups.name;
+    // Inline icon details are applied over the icon details of the note itself
+    layer.iconOverride = getFrontMatterIconOverride(metadata?.frontmatter);
+    if (match.groups.tags) {
+        // Parse the list of tags
+        const tagRegex = regex.INLINE_TAG_IN_NOTE;
+        const tags = match.groups.tags.matchAll(tagRegex);
+        for (const tag of tags)
+            if (tag.groups.tag) layer.tags.push('#' + tag.groups.tag);
+        const icon = match.groups.tags.match(regex.INLINE_ICON_IN_NOTE);
+        const color = match.groups.tags.match(regex.INLINE_COLOR_IN_NOTE);
+        if (icon || color)
+            layer.iconOverride = Object.assign(
+                {},
+                layer.iconOverride,
+                icon ? { icon: icon.groups.icon } : {},
+                color ? { markerColor: color.groups.color } : {},
+            );
+    }
+    layer.tags = layer.tags.concat(fileTags);
+    layer.fileLocation = match.index;
+    layer.geolocationMatch = match;
+    layer.fileLine =
+        content.substring(0, layer.fileLocation).split('\n').length - 1;
+    const [heading, block] = getHeadingAndBlockForFilePosition(
+        metadata,
+        layer.fileLocation,
+    );
+    layer.fileHeading = heading;
+    layer.fileBlock = block;
+    // Regenerate the ID because the layer details changed since it was generated
+    layer.generateId();
+}
+
+/**
+ * Build markers from inline locations in the file body, and layers from inline paths and areas.
  * Properties non-essential for filtering, e.g. the marker icon, are not built here yet.
  * @param file The file object to load
  * @param settings The plugin settings
@@ -358,8 +574,8 @@ export async function getMarkersFromFileContent(
     file: TFile,
     settings: PluginSettings,
     app: App,
-): Promise<FileMarker[]> {
-    let markers: FileMarker[] = [];
+): Promise<BaseGeoLayer[]> {
+    let markers: BaseGeoLayer[] = [];
     // Get the tags of the file, to these we will add the tags associated with each individual marker (inline tags)
     const metadata = app.metadataCache.getFileCache(file);
     const fileTags = getAllTags(metadata);
@@ -373,29 +589,7 @@ export async function getMarkersFromFileContent(
             );
             verifyLocation(location);
             const marker = new FileMarker(file, location);
-            if (match.groups.name && match.groups.name.length > 0)
-                marker.extraName = match.groups.name;
-            if (match.groups.tags) {
-                // Parse the list of tags
-                const tagRegex = regex.INLINE_TAG_IN_NOTE;
-                const tags = match.groups.tags.matchAll(tagRegex);
-                for (const tag of tags)
-                    if (tag.groups.tag) marker.tags.push('#' + tag.groups.tag);
-            }
-            marker.tags = marker.tags.concat(fileTags);
-            marker.fileLocation = match.index;
-            marker.geolocationMatch = match;
-            marker.fileLine =
-                content.substring(0, marker.fileLocation).split('\n').length -
-                1;
-            const [heading, block] = getHeadingAndBlockForFilePosition(
-                metadata,
-                marker.fileLocation,
-            );
-            marker.fileHeading = heading;
-            marker.fileBlock = block;
-            // Regenerate the ID because the marker details changed since it was generated
-            marker.generateId();
+            setInlineLayerDetails(marker, match, content, metadata, fileTags);
             markers.push(marker);
         } catch (e) {
             console.log(
@@ -404,6 +598,21 @@ export async function getMarkersFromFileContent(
             );
         }
     }
+    for (const match of matchInlineGeometry(content)) {
+        try {
+            const layer = new GeoJsonLayer(
+                file,
+                inlineGeometryToGeoJson(match),
+            );
+            setInlineLayerDetails(layer, match, content, metadata, fileTags);
+            markers.push(layer);
+        } catch (e) {
+            console.log(
+                `Error converting geometry in file ${file.name}: could not parse ${match[0]}`,
+                e,
+            );
+        }
+    }
     return markers;
 }
 
@@ -560,6 +769,8 @@ function addEdgesFromFile(
                             const edge = new Edge(
                                 sourceMarker,
                                 destinationMarker,
+                                null,
+                                getLinkAlias(link),
                             );
                             sourceMarker.addEdge(edge);
                             destinationMarker.addEdge(edge);
@@ -571,6 +782,20 @@ function addEdgesFromFile(
     }
 }
 
+/**
+ * Returns the alias of a link, i.e. a display text that is different from the name of the linked note, or
+ * undefined if the link has no alias.
+ */
+function getLinkAlias(link: LinkCache | FrontmatterLinkCache) {
+    const displayText = link.displayText?.trim();
+    if (!displayText) return undefined;
+    const linkPath = parseLinktext(link.link).path;
+    const linkName = linkPath.split('/').pop().replace(/\.md$/, '');
+    return displayText !== link.link && displayText !== linkName
+        ? displayText
+        : undefined;
+}
+
 /**
  * Maintains a global set of tags.
  * This is needed on top of Obsidian's own tag system because Map View also has inline tags.
@@ -592,13 +817,15 @@ export function cacheTagsFromMarkers(
  * only if the marker is in that header/block. A front-matter marker is considered link regardless of the block/header.
  */
 export function isMarkerLinkedFrom(
-    marker: FileMarker,
+    marker: BaseGeoLayer,
     linkCache: LinkCache | FrontmatterLinkCache,
     app: App,
 ) {
     const parsedLink = parseLinktext(linkCache.link);
+    // Links to non-Markdown files (e.g. GPX files) include the file extension
     const fileMatches =
         parsedLink.path.toLowerCase() === marker.file.basename.toLowerCase() ||
+        parsedLink.path.toLowerCase() === marker.file.name.toLowerCase() ||
         linkCache.displayText.toLowerCase() ===
             marker.file.basename.toLowerCase();
     // If the link is not pointing at the marker's file at all, there's nothing more to talk about
@@ -0,0 +1,129 @@
+import * as leaflet from 'leaflet';
+import * as utils from 'src/utils';
+
+/**
+ * The map measurement tool: while active, every click on the map adds a point to a path (or an area), and the
+ * tool reports the total distance and area of the drawn shape.
+ */
+export class MeasureTool {
+    private map: leaflet.Map;
+    private points: leaflet.LatLng[] = [];
+    /** The drawn shape and its vertices */
+    private layer: leaflet.LayerGroup = null;
+    /** Called whenever the measured shape changes */
+    private onChange: () => void;
+    private clickHandler = (event: leaflet.LeafletMouseEvent) =>
+        this.addPoint(event.latlng);
+    /** Whether the shape is a closed area rather than a path */
+    public isArea: boolean = false;
+
+    constructor(map: leaflet.Map, onChange: () => void) {
+        this.map = map;
+        this.onChange = onChange;
+    }
+
+    get active() {
+        return this.layer !== null;
+    }
+
+    get numPoints() {
+        return this.points.length;
+    }
+
+    start(firstPoint?: leaflet.LatLng) {
+        if (!this.active) {
+            this.layer = leaflet.layerGroup().addTo(this.map);
+            this.map.on('click', this.clickHandler);
+            this.map.getContainer().addClass('mv-measuring');
+        }
+        if (firstPoint) this.addPoint(firstPoint);
+        else this.onChange();
+    }
+
+    stop() {
+        if (!this.active) return;
+        this.map.off('click', this.clickHandler);
+        this.map.getContainer().removeClass('mv-measuring');
+        this.layer.remove();
+        this.layer = null;
+        this.points = [];
+        this.isArea = false;
+        this.onChange();
+    }
+
+    addPoint(point: leaflet.LatLng) {
+        this.points.push(point);
+        this.redraw();
+    }
+
+    removeLastPoint() {
+        this.points.pop();
+        this.redraw();
+    }
+
+    setArea(isArea: boolean) {
+        this.isArea = isArea;
+        this.redraw();
+    }
+
+    /** The total length of the path in meters, or the perimeter in the case of an area */
+    getDistance(): number {
+        const path =
+            this.isArea && this.points.length > 2
+                ? [...this.points, this.points[0]]
+                : this.points;
+        let distance = 0;
+        for (let i = 1; i < path.length; i++)
+            distance += this.map.distance(path[i - 1], path[i]);
+        return distance;
+    }
+
+    /** The area in square meters, or null if the shape is not an area */
+    getArea(): number | null {
+        if (!this.isArea || this.points.length < 3) return null;
+        return utils.geodesicArea(this.points);
+    }
+
+    /**
+     * Returns the shape as an inline geolocation link with multiple coordinates, which Map View displays as a path
+     * or an area, e.g. `[name](geo:lat1,lng1;lat2,lng2)`.
+     * An area is closed by repeating its first point.
+     */
+    toInlineGeolink(name: string): string {
+        const points =
+            this.isArea && this.points.length > 2
+                ? [...this.points, this.points[0]]
+                : this.points;
+        const coordinates = points
+            .map((point) => `${point.lat},${point.lng}`)
+            .join(';');
+        return `[${name}](geo:${coordinates})`;
+    }
+
+    private redraw() {
+        if (!this.layer) return;
+        this.layer.clearLayers();
+        // The color is set in CSS (by the class name) to match the Obsidian theme.
+        // The shape isn't interactive so clicks on it add points like clicks on the map
+        const options = {
+            className: 'mv-measure-shape',
+            weight: 3,
+            interactive: false,
+        };
+        if (this.isArea && this.points.length > 2)
+            leaflet.polygon(this.points, options).addTo(this.layer);
+        else if (this.points.length > 1)
+            leaflet
+                .polyline(this.points, { ...options, dashArray: '6 6' })
+                .addTo(this.layer);
+        for (const point of this.points)
+            leaflet
+                .circleMarker(point, {
+                    ...options,
+                    radius: 4,
+                    fillOpacity: 1,
+                })
+                .addTo(this.layer);
+        this.onChange();
+    }
+}
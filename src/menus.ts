@@ -12,7 +12,7 @@ import { type MapState } from 'src/mapState';
 import MapViewPlugin from 'src/main';
 import { MapContainer } from 'src/mapContainer';
 import { type PluginSettings } from 'src/settings';
-import { FileMarker } from 'src/markers';
+import { BaseGeoLayer, FileMarker } from 'src/markers';
 import { getIconFromOptions } from 'src/markerIcons';
 import { SvelteModal } from 'src/svelte';
 import ImportDialog from './components/ImportDialog.svelte';
@@ -154,6 +154,7 @@ export function addUrlConversionItems(
     suggestor: LocationSuggest,
     urlConvertor: UrlConvertor,
     settings: PluginSettings,
+    plugin: MapViewPlugin,
 ) {
     if (editor.getSelection()) {
         // If there is text selected, add a menu item to convert it to coordinates using geosearch
@@ -188,14 +189,22 @@ export function addUrlConversionItems(
                 urlConvertor.parseLocationFromUrl(clipboard);
             if (clipboardLocation instanceof Promise)
                 clipboardLocation = await clipboardLocation;
-            if (clipboardLocation)
+            if (clipboardLocation) {
+                // Label the pasted location with its address if reverse geocoding is on
+                const place = await plugin.reverseGeocoder.lookup(
+                    clipboardLocation.location,
+                );
                 utils.insertLocationToEditor(
                     app,
                     clipboardLocation.location,
                     editor,
                     file,
                     settings,
+                    null,
+                    null,
+                    place?.address,
                 );
+            }
         });
     });
 }
@@ -217,15 +226,23 @@ export function addNewNoteItems(
     mapContainer: MapContainer,
     settings: settings.PluginSettings,
     app: App,
+    plugin: MapViewPlugin,
 ) {
     const locationString = `${geolocation.lat},${geolocation.lng}`;
+    const getExtraLocationData = async (): Promise<utils.ExtraLocationData> => {
+        const place = await plugin.reverseGeocoder.lookup(geolocation);
+        return place ? { place } : {};
+    };
     menu.addItem((item: MenuItem) => {
         item.setTitle('New note here (inline)');
         item.setIcon('edit');
         item.setSection('new');
         const openFunc = async (ev: MouseEvent) => {
+            const extraLocationData = await getExtraLocationData();
             const newFileName = utils.formatWithTemplates(
                 settings.newNoteNameFormat,
+                '',
+                extraLocationData,
             );
             const [file, cursorPos] = await utils.newNote(
                 app,
@@ -235,6 +252,7 @@ export function addNewNoteItems(
                 locationString,
                 settings.frontMatterKey,
                 settings.newNoteTemplate,
+                extraLocationData,
             );
             mapContainer.goToFile(
                 file,
@@ -251,8 +269,11 @@ export function addNewNoteItems(
         item.setIcon('edit');
         item.setSection('new');
         const openFunc = async (ev: MouseEvent) => {
+            const extraLocationData = await getExtraLocationData();
             const newFileName = utils.formatWithTemplates(
                 settings.newNoteNameFormat,
+                '',
+                extraLocationData,
             );
             const [file, cursorPos] = await utils.newNote(
                 app,
@@ -262,6 +283,7 @@ export function addNewNoteItems(
                 locationString,
                 settings.frontMatterKey,
                 settings.newNoteTemplate,
+                extraLocationData,
             );
             mapContainer.goToFile(
                 file,
@@ -357,7 +379,7 @@ export function addImport(
 
 export function populateOpenNote(
     mapContainer: MapContainer,
-    fileMarker: FileMarker,
+    fileMarker: BaseGeoLayer,
     menu: Menu,
     settings: PluginSettings,
 ) {
@@ -432,6 +454,16 @@ export function populateRouting(
                     open(url);
                 });
             });
+            if (settings.routingEngineUrl) {
+                menu.addItem((item: MenuItem) => {
+                    item.setTitle('Show route on map');
+                    item.setSection('mapview');
+                    item.setIcon('route');
+                    item.onClick(() => {
+                        mapContainer.showRoute(geolocation);
+                    });
+                });
+            }
         }
     }
 }
@@ -478,9 +510,62 @@ export function addMapContextMenuItems(
     mapContainer: MapContainer,
     settings: settings.PluginSettings,
     app: App,
+    plugin: MapViewPlugin,
 ) {
-    addNewNoteItems(mapPopup, geolocation, mapContainer, settings, app);
+    addNewNoteItems(mapPopup, geolocation, mapContainer, settings, app, plugin);
     addCopyGeolocationItems(mapPopup, geolocation);
     populateRouting(mapContainer, geolocation, mapPopup, settings);
     addOpenWith(mapPopup, geolocation, null, settings);
+    addMeasure(mapPopup, geolocation, mapContainer);
+    addSelect(mapPopup, mapContainer);
+    addExportMarkers(mapPopup, mapContainer);
+}
+
+export function addMeasure(
+    menu: Menu,
+    geolocation: leaflet.LatLng,
+    mapContainer: MapContainer,
+) {
+    // Without the measure control (e.g. in embedded maps) there would be no readout of the measurement
+    if (!mapContainer.display.measureControl) return;
+    const measureTool = mapContainer.display.measureTool;
+    menu.addItem((item: MenuItem) => {
+        item.setSection('measure');
+        item.setIcon('ruler');
+        if (measureTool.active) {
+            item.setTitle('Stop measuring');
+            item.onClick(() => mapContainer.stopMeasure());
+        } else {
+            item.setTitle('Measure from here');
+            item.onClick(() => mapContainer.startMeasure(geolocation));
+        }
+    });
+}
+
+export function addSelect(menu: Menu, mapContainer: MapContainer) {
+    // Without the select control (e.g. in embedded maps) there would be no way to act on the selection
+    if (!mapContainer.display.selectControl) return;
+    const selectionTool = mapContainer.display.selectionTool;
+    menu.addItem((item: MenuItem) => {
+        item.setSection('measure');
+        item.setIcon('lasso');
+        if (selectionTool.active) {
+            item.setTitle('Stop selecting markers');
+            item.onClick(() => mapContainer.stopSelection());
+        } else {
+            item.setTitle('Select markers');
+            item.onClick(() => mapContainer.startSelection());
+        }
+    });
+}
+
+export function addExportMarkers(menu: Menu, mapContainer: MapContainer) {
+    menu.addItem((item: MenuItem) => {
+        item.setTitle('Export markers to file...');
+        item.setIcon('download');
+        item.setSection('export');
+        item.onClick(() => {
+            mapContainer.openExportDialog();
+        });
+    });
 }
@@ -21,11 +21,15 @@ export class MiniMapView extends BaseMapView {
             showView: true,
             viewTabType: 'mini',
             showLinks: false,
+            showTimeline: false,
+            showMarkerList: false,
             showEmbeddedControls: false,
             showPresets: false,
             showSearch: true,
             showRealTimeButton: true,
             showLockButton: false,
+            showMeasureButton: false,
+            showSelectButton: false,
             showOpenButton: true,
             autoZoom: true,
             emptyFitRevertsToDefault: true,
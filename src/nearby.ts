@@ -0,0 +1,70 @@
+import * as leaflet from 'leaflet';
+import { BaseGeoLayer } from 'src/markers';
+import { getLayerDistance } from 'src/query';
+import * as utils from 'src/utils';
+
+/** A point that marker distances are measured from, i.e. the routing source or the GPS location */
+export type ReferencePoint = {
+    location: leaflet.LatLng;
+    name: string;
+};
+
+/** The distance (in meters) and bearing (in degrees from north) of a marker from a reference point */
+export type MarkerDistance = {
+    distance: number;
+    bearing: number;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/** Returns the initial great-circle bearing from one point to another, in degrees from north (0-360) */
+export function getBearing(from: leaflet.LatLng, to: leaflet.LatLng): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const lat1 = toRadians(from.lat);
+    const lat2 = toRadians(to.lat);
+    const deltaLng = toRadians(to.lng - from.lng);
+    const y = Math.sin(deltaLng) * Math.cos(lat2);
+    const x =
+        Math.cos(lat1) * Math.sin(lat2) -
+        Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/** Convert a bearing in degrees to a compass direction, e.g. 'NE' */
+export function bearingToCompass(bearing: number): string {
+    return COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+}
+
+export function getMarkerDistance(
+    marker: BaseGeoLayer,
+    reference: leaflet.LatLng,
+): MarkerDistance | null {
+    const layerDistance = getLayerDistance(marker, reference);
+    if (!layerDistance) return null;
+    return {
+        distance: layerDistance.distance,
+        bearing: getBearing(reference, layerDistance.closest),
+    };
+}
+
+/** Format a marker distance for display, e.g. '1.20 km NE' */
+export function formatMarkerDistance(markerDistance: MarkerDistance): string {
+    return `${utils.formatDistance(markerDistance.distance)} ${bearingToCompass(markerDistance.bearing)}`;
+}
+
+/** Returns the given number of markers that are nearest to the reference point, nearest first */
+export function filterNearestMarkers(
+    markers: BaseGeoLayer[],
+    reference: leaflet.LatLng,
+    count: number,
+): BaseGeoLayer[] {
+    return markers
+        .map((marker) => ({
+            marker,
+            distance: getLayerDistance(marker, reference)?.distance,
+        }))
+        .filter((item) => item.distance != null)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, count)
+        .map((item) => item.marker);
+}
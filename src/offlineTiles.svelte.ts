@@ -1,4 +1,4 @@
-import { requestUrl, Notice } from 'obsidian';
+import { requestUrl, Notice, App } from 'obsidian';
 import * as leaflet from 'leaflet';
 import {
     hasTile,
@@ -9,11 +9,15 @@ import {
     type TileInfo,
     type StoredTile,
 } from 'leaflet.offline';
-import type { PluginSettings } from 'src/settings';
+import type { GeoJSON } from 'geojson';
+import type { PluginSettings, TileSource } from 'src/settings';
 import MapViewPlugin from 'src/main';
 import { SvelteModal } from 'src/svelte';
 import OfflineManagerDialog from './components/OfflineManagerDialog.svelte';
 import { MapContainer } from 'src/mapContainer';
+import { buildMarkers, FileMarker } from 'src/markers';
+import { Query } from 'src/query';
+import { getOverlayUrlTemplate } from 'src/overlays';
 
 interface Job {
     id: number;
@@ -39,12 +43,43 @@ export function openManagerDialog(
         settings,
         {
             mapContainer: mapContainer,
-            tileLayer: mapContainer.display.tileLayer,
+            tileLayer: canStoreOffline(mapContainer.getMapSource())
+                ? (mapContainer.display.tileLayer as TileLayerOffline)
+                : null,
+            overlayLayers: Array.from(
+                mapContainer.display.overlayLayers.values(),
+            ),
         },
     );
     dialog.open();
 }
 
+/**
+ * Only the tiles of remote raster map sources are kept in the offline storage. Tiles of local sources are already
+ * in the vault, and vector sources are rendered rather than downloaded as images.
+ */
+export function canStoreOffline(source: TileSource) {
+    return !source.sourceType || source.sourceType === 'url';
+}
+
+/** A source of tiles that can be stored offline, which is either a map source or an overlay */
+export type OfflineSource = { name: string; urlTemplate: string };
+
+export function getOfflineSources(settings: PluginSettings): OfflineSource[] {
+    return [
+        ...settings.mapSources
+            .filter((source) => canStoreOffline(source))
+            .map((source) => ({
+                name: source.name,
+                urlTemplate: source.urlLight,
+            })),
+        ...(settings.overlaySources ?? []).map((source) => ({
+            name: source.name,
+            urlTemplate: getOverlayUrlTemplate(source),
+        })),
+    ];
+}
+
 export function getJobs() {
     return jobs;
 }
@@ -187,6 +222,10 @@ async function doDownloadJob(job: Job) {
     job.onFinish();
 }
 
+/**
+ * Calculate the tiles to download for the given areas, which default to the current view of the map.
+ * Tiles that are covered by more than one area are included once.
+ */
 export async function calculateTilesToDownload(
     map: leaflet.Map,
     tileLayer: TileLayerOffline,
@@ -195,44 +234,145 @@ export async function calculateTilesToDownload(
     skipExisting: boolean,
     maxTiles: number,
     signal?: AbortSignal,
+    areas?: leaflet.LatLngBounds[],
 ) {
     let newTiles: TileInfo[] = [];
     let existingTiles = 0;
     const MIN_ZOOM = 5;
     fromZoom = Math.max(fromZoom, MIN_ZOOM);
 
-    const saveArea = map.getBounds();
+    const saveAreas = areas ?? [map.getBounds()];
+    let tilesChecked = 0;
 
     for (let zoom = fromZoom; zoom <= toZoom; zoom++) {
-        const area = leaflet.bounds(
-            map.project(saveArea.getNorthWest(), zoom),
-            map.project(saveArea.getSouthEast(), zoom),
-        );
-        const tilesInZoomLevel = tileLayer.getTileUrls(area, zoom);
-        for (let i = 0; i < tilesInZoomLevel.length; i++) {
-            const tile = tilesInZoomLevel[i];
+        const keysInZoomLevel = new Set<string>();
+        for (const saveArea of saveAreas) {
+            const area = leaflet.bounds(
+                map.project(saveArea.getNorthWest(), zoom),
+                map.project(saveArea.getSouthEast(), zoom),
+            );
+            const tilesInArea = tileLayer.getTileUrls(area, zoom);
+            for (const tile of tilesInArea) {
+                if (signal?.aborted) {
+                    return [];
+                }
 
-            if (signal?.aborted) {
-                return [];
-            }
+                if (keysInZoomLevel.has(tile.key)) continue;
+                keysInZoomLevel.add(tile.key);
 
-            // Yield to UI every 100 tiles
-            if (i % 1000 === 0) {
-                await new Promise((resolve) => setTimeout(resolve, 0));
-            }
+                // Yield to UI every 1000 tiles
+                if (tilesChecked++ % 1000 === 0) {
+                    await new Promise((resolve) => setTimeout(resolve, 0));
+                }
 
-            if (skipExisting && (await hasTile(tile.key))) existingTiles++;
-            else newTiles.push(tile);
+                if (skipExisting && (await hasTile(tile.key))) existingTiles++;
+                else newTiles.push(tile);
 
-            if (newTiles.length >= maxTiles) {
-                console.error('Too many tiles');
-                return newTiles;
+                if (newTiles.length >= maxTiles) {
+                    console.error('Too many tiles');
+                    return newTiles;
+                }
             }
         }
     }
     return newTiles;
 }
 
+/**
+ * Areas that cover a corridor along lines (e.g. a route or a GPX track), up to the given distance on each side.
+ * The corridor is covered by squares around points along the lines, which are spaced closely enough for the squares
+ * to overlap also on diagonal lines.
+ */
+export function getCorridorAreas(
+    lines: leaflet.LatLng[][],
+    bufferMeters: number,
+): leaflet.LatLngBounds[] {
+    let areas: leaflet.LatLngBounds[] = [];
+    const spacing = bufferMeters / 2;
+    for (const line of lines) {
+        let lastCenter: leaflet.LatLng = null;
+        const addCenter = (center: leaflet.LatLng) => {
+            if (lastCenter && lastCenter.distanceTo(center) < spacing) return;
+            areas.push(center.toBounds(bufferMeters * 2));
+            lastCenter = center;
+        };
+        for (let i = 0; i < line.length; i++) {
+            addCenter(line[i]);
+            if (i === line.length - 1) break;
+            // Add points along long segments
+            const from = line[i];
+            const to = line[i + 1];
+            const steps = Math.ceil(from.distanceTo(to) / spacing);
+            for (let step = 1; step < steps; step++)
+                addCenter(
+                    leaflet.latLng(
+                        from.lat + ((to.lat - from.lat) * step) / steps,
+                        from.lng + ((to.lng - from.lng) * step) / steps,
+                    ),
+                );
+        }
+        // Make sure the end of the line is covered even if it's close to the last center
+        if (line.length > 0)
+            areas.push(line[line.length - 1].toBounds(bufferMeters * 2));
+    }
+    return areas;
+}
+
+/** Areas that cover the given distance around each of the given points */
+export function getPointAreas(
+    points: leaflet.LatLng[],
+    radiusMeters: number,
+): leaflet.LatLngBounds[] {
+    return points.map((point) => point.toBounds(radiusMeters * 2));
+}
+
+/** The lines of a GeoJSON object, including the outlines of polygons */
+export function getGeoJsonLines(geojson: GeoJSON): leaflet.LatLng[][] {
+    switch (geojson?.type) {
+        case 'FeatureCollection':
+            return geojson.features.flatMap((feature) =>
+                getGeoJsonLines(feature),
+            );
+        case 'Feature':
+            return getGeoJsonLines(geojson.geometry);
+        case 'GeometryCollection':
+            return geojson.geometries.flatMap((geometry) =>
+                getGeoJsonLines(geometry),
+            );
+        case 'LineString':
+            return [leaflet.GeoJSON.coordsToLatLngs(geojson.coordinates, 0)];
+        case 'MultiLineString':
+        case 'Polygon':
+            return leaflet.GeoJSON.coordsToLatLngs(geojson.coordinates, 1);
+        case 'MultiPolygon':
+            return leaflet.GeoJSON.coordsToLatLngs(
+                geojson.coordinates,
+                2,
+            ).flat();
+        default:
+            return [];
+    }
+}
+
+/** The locations of the markers (excluding GeoJSON layers) in the vault that match a query */
+export async function getMarkerLocations(
+    app: App,
+    settings: PluginSettings,
+    queryString: string,
+): Promise<leaflet.LatLng[]> {
+    const markers = await buildMarkers(
+        app.vault.getMarkdownFiles(),
+        settings,
+        app,
+    );
+    const query = new Query(app, queryString, settings);
+    let locations: leaflet.LatLng[] = [];
+    for (const marker of markers)
+        if (marker instanceof FileMarker && query.testMarker(marker))
+            locations.push(marker.location);
+    return locations;
+}
+
 // Returns the number of tiles that were purged
 export async function purgeOldTiles(urlTemplate: string, maxMonths: number) {
     const now = Date.now();
@@ -259,11 +399,9 @@ export async function purgeTilesBySettings(settings: PluginSettings) {
     let allTiles: StoredTile[] = [];
     let numPurged = 0;
     let totalSize = 0;
-    const sources = settings.mapSources;
     const now = Date.now();
-    for (const mapSource of sources) {
-        const url = mapSource.urlLight;
-        const storageInfo = await getStorageInfo(url);
+    for (const source of getOfflineSources(settings)) {
+        const storageInfo = await getStorageInfo(source.urlTemplate);
         for (const tile of storageInfo) {
             const tileTime = tile.createdAt;
             const monthsAgo = (now - tileTime) / (1000 * 60 * 60 * 24 * 30);
@@ -0,0 +1,47 @@
+import * as leaflet from 'leaflet';
+import type { OverlaySource } from 'src/settings';
+
+/**
+ * The URL template of the tiles of an overlay.
+ * WMS servers are requested for square tiles like other overlays, using a `{bbox}` placeholder that is filled
+ * by getWmsBbox. This way WMS tiles can be stored offline by their URLs like tiles of other sources.
+ */
+export function getOverlayUrlTemplate(source: OverlaySource) {
+    if (source.sourceType !== 'wms') return source.url;
+    const params = new URLSearchParams({
+        SERVICE: 'WMS',
+        REQUEST: 'GetMap',
+        VERSION: '1.1.1',
+        LAYERS: source.wmsLayers ?? '',
+        STYLES: '',
+        FORMAT: 'image/png',
+        TRANSPARENT: 'true',
+        SRS: 'EPSG:3857',
+        WIDTH: '256',
+        HEIGHT: '256',
+    });
+    const separator = source.url.includes('?') ? '&' : '?';
+    return `${source.url}${separator}${params.toString()}&BBOX={bbox}`;
+}
+
+/**
+ * The bounding box of a tile in the WMS format, in EPSG:3857 coordinates.
+ * This is used as a Leaflet template value, which is called with the data of the tile.
+ */
+export function getWmsBbox(data: { x: number; y: number; z: number }) {
+    const crs = leaflet.CRS.EPSG3857;
+    const tileSize = 256;
+    const northWest = crs.project(
+        crs.pointToLatLng(
+            leaflet.point(data.x * tileSize, data.y * tileSize),
+            data.z,
+        ),
+    );
+    const southEast = crs.project(
+        crs.pointToLatLng(
+            leaflet.point((data.x + 1) * tileSize, (data.y + 1) * tileSize),
+            data.z,
+        ),
+    );
+    return [northWest.x, southEast.y, southEast.x, northWest.y].join(',');
+}
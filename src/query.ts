@@ -3,12 +3,19 @@ import { App, TFile, TextComponent, PopoverSuggest, Scope } from 'obsidian';
 import * as consts from 'src/consts';
 import { matchByPosition, getTagUnderCursor } from 'src/utils';
 import * as regex from 'src/regex';
-import { BaseGeoLayer, FileMarker, isMarkerLinkedFrom } from 'src/markers';
+import {
+    BaseGeoLayer,
+    isMarkerLinkedFrom,
+    getFrontMatterLocation,
+} from 'src/markers';
+import { type PluginSettings } from 'src/settings';
 import * as utils from 'src/utils';
 import { checkTagPatternMatch } from 'src/markerIcons';
 import MapViewPlugin from 'src/main';
 
+import * as leaflet from 'leaflet';
 import * as parser from 'boon-js';
+import moment from 'moment';
 
 export class QueryNode {
     public nodeType: 'leaf' | 'and' | 'or' | 'not';
@@ -22,9 +29,13 @@ export class Query {
     private queryRpn: parser.PostfixExpression = null;
     private queryEmpty = false;
     private app: App;
+    private settings: PluginSettings;
+    // Locations of notes referenced by near: operators, resolved once per query
+    private nearLocations: Map<string, leaflet.LatLng | null> = new Map();
 
-    constructor(app: App, queryString: string) {
+    constructor(app: App, queryString: string, settings: PluginSettings) {
         this.app = app;
+        this.settings = settings;
         if (queryString?.length > 0) {
             this.queryRpn = parser.parse(
                 this.preprocessQueryString(queryString),
@@ -37,12 +48,14 @@ export class Query {
         // 2. Replace path:"abc def/ghi" by "path:abc def/dhi" because the parser doesn't like quotes as part of the words
         // 3. Same goes for linkedto:"", linkedfrom:"" and name:""
         // 4. Replace ["property":"value"] with single quotes to avoid parser complaints.
+        // 5. Replace near:"abc def"~5km by "near:abc def~5km"
         let newString = queryString
             .replace(regex.TAG_NAME_WITH_HEADER_AND_WILDCARD, '"tag:$1"')
             .replace(regex.PATH_QUERY_WITH_HEADER, '"path:$1"')
             .replace(regex.LINKEDTO_QUERY_WITH_HEADER, '"linkedto:$1"')
             .replace(regex.LINKEDFROM_QUERY_WITH_HEADER, '"linkedfrom:$1"')
             .replace(regex.NAME_QUERY_WITH_HEADER, '"name:$1"')
+            .replace(regex.NEAR_QUERY_WITH_HEADER, '"near:$1$2"')
             .replace(/^\[(")(.+?)\1:/, "['$2':")
             .replace(/:(")(.+)?\1\]/, ":'$2']");
         return newString;
@@ -59,10 +72,8 @@ export class Query {
         let booleanStack: string[] = [];
         for (const token of this.queryRpn) {
             if (token.name === 'IDENTIFIER') {
-                if (marker instanceof FileMarker) {
-                    const result = this.testIdentifier(marker, token.value);
-                    booleanStack.push(toString(result));
-                }
+                const result = this.testIdentifier(marker, token.value);
+                booleanStack.push(toString(result));
             } else if (token.name === 'OPERATOR') {
                 let result;
                 if (token.value === 'NOT') {
@@ -86,7 +97,7 @@ export class Query {
         return toBool(booleanStack[0]);
     }
 
-    testIdentifier(marker: FileMarker, value: string): boolean {
+    testIdentifier(marker: BaseGeoLayer, value: string): boolean {
         if (value.startsWith('tag:#')) {
             const queryTag = value.replace('tag:', '');
             if (queryTag.length === 0) return false;
@@ -157,6 +168,44 @@ export class Query {
                     marker.fileLine <= toLine
                 );
             }
+        } else if (value.startsWith('near:')) {
+            // near:note~distance
+            const query = value.replace('near:', '');
+            const separator = query.lastIndexOf('~');
+            const noteName = separator >= 0 ? query.slice(0, separator) : query;
+            const radius =
+                separator >= 0
+                    ? utils.parseDistance(query.slice(separator + 1))
+                    : consts.DEFAULT_NEAR_QUERY_RADIUS_METERS;
+            if (radius === null) throw new Error('Invalid distance ' + value);
+            const center = this.getNoteLocation(noteName);
+            if (!center) return false;
+            return isLayerWithinRadius(marker, center, radius);
+        } else if (value.startsWith('within:')) {
+            // within:lat,lng,distance
+            const parts = value.replace('within:', '').split(',');
+            const radius = parts.length === 3 && utils.parseDistance(parts[2]);
+            const center = leaflet.latLng(
+                parseFloat(parts[0]),
+                parseFloat(parts[1]),
+            );
+            if (!radius || Number.isNaN(center.lat) || Number.isNaN(center.lng))
+                throw new Error('Invalid within: query ' + value);
+            return isLayerWithinRadius(marker, center, radius);
+        } else if (value.startsWith('bbox:')) {
+            // bbox:south,west,north,east
+            const parts = value
+                .replace('bbox:', '')
+                .split(',')
+                .map((n) => parseFloat(n));
+            if (parts.length !== 4 || parts.some((n) => Number.isNaN(n)))
+                throw new Error('Invalid bbox: query ' + value);
+            const queryBounds = leaflet.latLngBounds(
+                [parts[0], parts[1]],
+                [parts[2], parts[3]],
+            );
+            const layerBounds = getLayerBounds(marker);
+            return layerBounds && queryBounds.intersects(layerBounds);
         } else if (value.startsWith('[')) {
             const propertyQueryMatch = value.match(/\[(.+?):(.*?)\]/);
             if (!propertyQueryMatch) return false;
@@ -168,8 +217,10 @@ export class Query {
 
             const fileCache = this.app.metadataCache.getFileCache(marker.file);
             let propertyValues: string[] = [];
+            // Non-Markdown files (e.g. GPX files) have no properties
+            if (!fileCache?.frontmatter) return false;
             if (isExactName) {
-                const property = fileCache.frontmatter?.[propertyName];
+                const property = fileCache.frontmatter[propertyName];
                 if (typeof property !== 'undefined')
                     propertyValues = [property];
             } else {
@@ -181,6 +232,15 @@ export class Query {
             // Allow searching for the existence of a property via a blank value.
             if (propertyQuery.length === 0) return propertyValues.length > 0;
 
+            // Comparisons and ranges, e.g. [rating:>=4] or [visited:2023-01-01..2023-12-31]
+            const comparison = isExactQuery
+                ? null
+                : parseComparison(propertyQuery);
+            if (comparison)
+                return normalizePropertyValues(propertyValues).some((p) =>
+                    testComparison(p, comparison),
+                );
+
             const propertyQueryLower = propertyQuery.toLowerCase();
             return normalizePropertyValues(propertyValues).some((p) =>
                 isExactQuery
@@ -189,6 +249,56 @@ export class Query {
             );
         } else throw new Error('Unsupported query format ' + value);
     }
+
+    /** Find the front matter location of the note with the given name or path (for near: queries) */
+    private getNoteLocation(noteName: string): leaflet.LatLng | null {
+        if (!this.nearLocations.has(noteName)) {
+            const file = this.app.metadataCache.getFirstLinkpathDest(
+                noteName,
+                '',
+            );
+            this.nearLocations.set(
+                noteName,
+                file
+                    ? getFrontMatterLocation(file, this.app, this.settings)
+                    : null,
+            );
+        }
+        return this.nearLocations.get(noteName);
+    }
+}
+
+function getLayerBounds(layer: BaseGeoLayer): leaflet.LatLngBounds | null {
+    const bounds = layer.getBounds();
+    return bounds.length > 0 ? leaflet.latLngBounds(bounds) : null;
+}
+
+/**
+ * Returns the distance in meters from a point to the given layer, or null if the layer has no location.
+ * For layers that are not a single point (e.g. paths) this is an approximation that uses their bounding box, and
+ * the closest point of the bounding box is also returned.
+ */
+export function getLayerDistance(
+    layer: BaseGeoLayer,
+    point: leaflet.LatLng,
+): { distance: number; closest: leaflet.LatLng } | null {
+    const bounds = getLayerBounds(layer);
+    if (!bounds) return null;
+    const closest = leaflet.latLng(
+        Math.min(Math.max(point.lat, bounds.getSouth()), bounds.getNorth()),
+        Math.min(Math.max(point.lng, bounds.getWest()), bounds.getEast()),
+    );
+    return { distance: point.distanceTo(closest), closest };
+}
+
+// Returns true if the given layer is at least partially within the given radius (in meters) from the center
+function isLayerWithinRadius(
+    layer: BaseGeoLayer,
+    center: leaflet.LatLng,
+    radius: number,
+): boolean {
+    const layerDistance = getLayerDistance(layer, center);
+    return layerDistance !== null && layerDistance.distance <= radius;
 }
 
 function normalizePropertyValues(value: unknown): string[] {
@@ -200,6 +310,89 @@ function normalizePropertyValues(value: unknown): string[] {
     throw new Error('Cannot coerce property: ' + value);
 }
 
+type PropertyComparison = {
+    operator: '<' | '<=' | '>' | '>=' | 'range';
+    // For a range, either 'from' or 'to' may be empty, for an open-ended range
+    from: string;
+    to?: string;
+};
+
+// Parse a property query value such as '>=4' or '2023-01-01..2023-12-31', or return null if it's
+// not a comparison
+function parseComparison(query: string): PropertyComparison | null {
+    const operatorMatch = query.match(/^(<=|>=|<|>)(.+)$/);
+    if (operatorMatch)
+        return {
+            operator: operatorMatch[1] as PropertyComparison['operator'],
+            from: operatorMatch[2].trim(),
+        };
+    const rangeMatch = query.match(/^(.*?)\.\.(.*)$/);
+    if (rangeMatch && (rangeMatch[1].length > 0 || rangeMatch[2].length > 0))
+        return {
+            operator: 'range',
+            from: rangeMatch[1].trim(),
+            to: rangeMatch[2].trim(),
+        };
+    return null;
+}
+
+// Convert a property or query value to something that can be compared: either a number, or a date
+// (as a timestamp). Returns null if the value is neither.
+function toComparable(
+    value: string,
+): { kind: 'number' | 'date'; value: number } | null {
+    if (value.length === 0) return null;
+    const asNumber = Number(value);
+    if (Number.isFinite(asNumber)) return { kind: 'number', value: asNumber };
+    // Property values are lower-cased when normalized, but ISO dates need an upper-case 'T'
+    const asDate = moment(
+        value.toUpperCase(),
+        [moment.ISO_8601, 'YYYY-MM-DD'],
+        true,
+    );
+    if (asDate.isValid()) return { kind: 'date', value: asDate.valueOf() };
+    return null;
+}
+
+// Compare two values of the same kind, returning a negative number if a < b, 0 if they are equal and a
+// positive number if a > b, or null if they cannot be compared
+function compareValues(a: string, b: string): number | null {
+    const comparableA = toComparable(a);
+    const comparableB = toComparable(b);
+    if (!comparableA || !comparableB || comparableA.kind !== comparableB.kind)
+        return null;
+    return comparableA.value - comparableB.value;
+}
+
+function testComparison(
+    propertyValue: string,
+    comparison: PropertyComparison,
+): boolean {
+    if (comparison.operator === 'range') {
+        if (comparison.from.length > 0) {
+            const fromResult = compareValues(propertyValue, comparison.from);
+            if (fromResult === null || fromResult < 0) return false;
+        }
+        if (comparison.to.length > 0) {
+            const toResult = compareValues(propertyValue, comparison.to);
+            if (toResult === null || toResult > 0) return false;
+        }
+        return true;
+    }
+    const result = compareValues(propertyValue, comparison.from);
+    if (result === null) return false;
+    switch (comparison.operator) {
+        case '<':
+            return result < 0;
+        case '<=':
+            return result <= 0;
+        case '>':
+            return result > 0;
+        case '>=':
+            return result >= 0;
+    }
+}
+
 // Return whether the given string was quoted, and the unquoted value.
 function unquote(s: string): [boolean, string] {
     // Match any string, but only capture the first group on balanced quotes.
@@ -354,6 +547,11 @@ export class QuerySuggest extends PopoverSuggest<Suggestion> {
             regex.QUOTED_OR_NOT_QUOTED_LINKEDFROM,
             cursorPos,
         );
+        const propertyMatch = matchByPosition(
+            input,
+            regex.PROPERTY_QUERY_WITHOUT_VALUE,
+            cursorPos,
+        );
         if (tagMatch) {
             const tagQuery = tagMatch[1] ?? '';
             // Return a tag name with the pound (#) sign removed if any
@@ -384,7 +582,19 @@ export class QuerySuggest extends PopoverSuggest<Suggestion> {
             return this.createPathSuggestions(linkedToMatch, 'linkedto');
         else if (linkedFromMatch)
             return this.createPathSuggestions(linkedFromMatch, 'linkedfrom');
-        else {
+        else if (
+            propertyMatch &&
+            cursorPos === propertyMatch.index + propertyMatch[0].length
+        ) {
+            return [
+                { text: 'COMPARISON OPERATORS', group: true },
+                { text: '>=' },
+                { text: '<=' },
+                { text: '>' },
+                { text: '<' },
+                { text: 'from..to', textToInsert: '..', cursorOffset: -2 },
+            ];
+        } else {
             return [
                 { text: 'SEARCH OPERATORS', group: true },
                 { text: 'tag:', append: '#' },
@@ -400,11 +610,28 @@ export class QuerySuggest extends PopoverSuggest<Suggestion> {
                     textToInsert: 'linkedfrom:""',
                     cursorOffset: -1,
                 },
+                {
+                    text: 'near:',
+                    textToInsert: 'near:""~1km',
+                    cursorOffset: -5,
+                },
+                { text: 'within:', textToInsert: 'within:lat,lng,1km' },
+                { text: 'bbox:', textToInsert: 'bbox:south,west,north,east' },
                 {
                     text: '[property:value]',
                     textToInsert: '[:]',
                     cursorOffset: -2,
                 },
+                {
+                    text: '[property:>=value]',
+                    textToInsert: '[:>=]',
+                    cursorOffset: -4,
+                },
+                {
+                    text: '[property:from..to]',
+                    textToInsert: '[:..]',
+                    cursorOffset: -4,
+                },
                 { text: 'LOGICAL OPERATORS', group: true },
                 { text: 'AND', append: ' ' },
                 { text: 'OR', append: ' ' },
@@ -5,12 +5,19 @@ export const TAG_NAME_WITH_HEADER_AND_WILDCARD =
     /tag:(#?[\p{L}\p{N}_\/\-\*]*)/gu;
 // Note no '#' sign
 export const INLINE_TAG_IN_NOTE = /tag:(?<tag>[\p{L}\p{N}_\/\-]+)/gu;
+// An icon (Font Awesome name or emoji) and marker color for a specific inline geolocation, e.g. `icon:fa-flag color:red`
+export const INLINE_ICON_IN_NOTE =
+    /icon:(?<icon>[\p{L}\p{N}\p{Extended_Pictographic}\u200d\ufe0f_\/\-]+)/u;
+export const INLINE_COLOR_IN_NOTE = /color:(?<color>[#\p{L}\p{N}\-]+)/u;
 export const PATH = "['p{L}p{N}_,&()/-\\.]+?";
 // path:"..."
 export const PATH_QUERY_WITH_HEADER = /path:"((?:[^"]|\\")+?)"/gu;
 export const LINKEDTO_QUERY_WITH_HEADER = /linkedto:"((?:[^"]|\\")+?)"/gu;
 export const LINKEDFROM_QUERY_WITH_HEADER = /linkedfrom:"((?:[^"]|\\")+?)"/gu;
 export const NAME_QUERY_WITH_HEADER = /name:"((?:[^"]|\\")+?)"/gu;
+// near:"note name"~5km (the distance is optional)
+export const NEAR_QUERY_WITH_HEADER =
+    /near:"((?:[^"]|\\")+?)"(~[0-9.]+(?:km|mi|m)?)?/gu;
 // path:"path with spaces" OR path:path_without_spaces
 export const QUOTED_OR_NOT_QUOTED_PATH =
     /path:(("((?:[^"]|\\")*)")|((?:[^"\s]|\\")*))/gu;
@@ -18,17 +25,27 @@ export const QUOTED_OR_NOT_QUOTED_LINKEDTO =
     /linkedto:(("((?:[^"]|\\")*)")|((?:[^"\s]|\\")*))/gu;
 export const QUOTED_OR_NOT_QUOTED_LINKEDFROM =
     /linkedfrom:(("((?:[^"]|\\")*)")|((?:[^"\s]|\\")*))/gu;
+// A property query with no value yet, e.g. `[rating:` or `[rating:]`
+export const PROPERTY_QUERY_WITHOUT_VALUE = /\[([^\[\]:\s]+):(?=\]|\s|$)/gu;
 export const COORDINATES =
     /(?<lat>[+-]?([0-9]*[.])?[0-9]+)\s*,\s*(?<lng>[+-]?([0-9]*[.])?[0-9]+)/;
 export const INLINE_LOCATION_OLD_SYNTAX =
     /`location:\s*\[?(?<lat>[+-]?([0-9]*[.])?[0-9]+)\s*,\s*(?<lng>[+-]?([0-9]*[.])?[0-9]+)\]?/g;
 // A link name is defined here as [^\]]* to prevent a previous link in the same line to count as the beginning
-// of the link name
+// of the link name.
+// The 'tags' group also includes the optional icon and color of the marker (see INLINE_ICON_IN_NOTE)
 export const INLINE_LOCATION_WITH_TAGS =
-    /(?<link>\[(?<name>[^\]]*?)\]\(geo:(?<lat>[+-]?([0-9]*[.])?[0-9]+),(?<lng>[+-]?([0-9]*[.])?[0-9]+)\))[ \t]*(?<tags>(tag:[\p{L}\p{N}_\/\-]+(?:[\s,.]+|$))*)/gu;
+    /(?<link>\[(?<name>[^\]]*?)\]\(geo:(?<lat>[+-]?([0-9]*[.])?[0-9]+),(?<lng>[+-]?([0-9]*[.])?[0-9]+)\))[ \t]*(?<tags>((?:tag:[\p{L}\p{N}_\/\-]+|icon:[\p{L}\p{N}\p{Extended_Pictographic}\u200d\ufe0f_\/\-]+|color:[#\p{L}\p{N}\-]+)(?:[\s,.]+|$))*)/gu;
 // Should be exactly like above but without the tags
 export const INLINE_LOCATION_WITHOUT_TAGS =
     /(?<link>\[(?<name>[^\]]*?)\]\(geo:(?<lat>[+-]?([0-9]*[.])?[0-9]+),(?<lng>[+-]?([0-9]*[.])?[0-9]+)\))/gu;
+// A path or an area (polygon) made of multiple semicolon-separated coordinate pairs, e.g. `[name](geo:lat1,lng1;lat2,lng2)`,
+// with optional tags like INLINE_LOCATION_WITH_TAGS. If the last pair equals the first, it's an area
+export const INLINE_GEOMETRY_WITH_TAGS =
+    /(?<link>\[(?<name>[^\]]*?)\]\(geo:(?<coordinates>[+-]?(?:[0-9]*[.])?[0-9]+,[+-]?(?:[0-9]*[.])?[0-9]+(?:;[+-]?(?:[0-9]*[.])?[0-9]+,[+-]?(?:[0-9]*[.])?[0-9]+)+)\))[ \t]*(?<tags>((?:tag:[\p{L}\p{N}_\/\-]+|icon:[\p{L}\p{N}\p{Extended_Pictographic}\u200d\ufe0f_\/\-]+|color:[#\p{L}\p{N}\-]+)(?:[\s,.]+|$))*)/gu;
+// A fenced code block of GeoJSON, with optional tags in the opening line, e.g. ```geojson tag:hike
+export const INLINE_GEOJSON_BLOCK =
+    /^```geojson[ \t]*(?<tags>(?:tag:[\p{L}\p{N}_\/\-]+[ \t]*)*)\r?\n(?<geojson>[\s\S]*?)^```/gmu;
 // location: "32.84,35.36"    or     location: 32.84,35.36
 export const FRONT_MATTER_LOCATION_V3 =
     /(?<header>^---.*)(?<loc>location:[ \t\r\n]*\-[ \t]*\"?(?<lat>[+-]?([0-9]*[.])?[0-9]+),(?<lng>[+-]?([0-9]*[.])?[0-9]+)\"?).*^---/ms;
@@ -0,0 +1,182 @@
+import { request } from 'obsidian';
+import * as leaflet from 'leaflet';
+import queryString from 'query-string';
+
+import MapViewPlugin from 'src/main';
+import * as consts from 'src/consts';
+
+/** The place details of a geolocation, as found by reverse geocoding */
+export type PlaceDetails = {
+    /** The full formatted address */
+    address: string;
+    city: string;
+    country: string;
+};
+
+/**
+ * Finds the address and place names of geolocations, using the service of the geocoding search provider
+ * (OpenStreetMap Nominatim or a compatible server, Google or AMap).
+ * Results are cached in the plugin settings, so looking up the same location again works offline and doesn't
+ * load the service.
+ */
+export class ReverseGeocoder {
+    private plugin: MapViewPlugin;
+
+    constructor(plugin: MapViewPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Reverse geocode a location, if reverse geocoding is turned on in the settings.
+     * Never throws: if the lookup fails the error is logged and null is returned, so the caller can continue
+     * without the place details.
+     */
+    async lookup(location: leaflet.LatLng): Promise<PlaceDetails | null> {
+        const settings = this.plugin.settings;
+        if (!settings.reverseGeocoding) return null;
+        if (!settings.reverseGeocodingCache)
+            settings.reverseGeocodingCache = {};
+        const cache = settings.reverseGeocodingCache;
+        const key = this.cacheKey(location);
+        if (key in cache) return cache[key];
+        try {
+            const details = await this.query(location);
+            if (!details) return null;
+            cache[key] = details;
+            // Object keys keep their insertion order, so the first ones are the oldest
+            const keys = Object.keys(cache);
+            for (
+                let i = 0;
+                i < keys.length - consts.MAX_REVERSE_GEOCODING_CACHE_SIZE;
+                i++
+            )
+                delete cache[keys[i]];
+            await this.plugin.saveSettings();
+            return details;
+        } catch (e) {
+            console.log('Map View: reverse geocoding failed: ', e.message);
+            return null;
+        }
+    }
+
+    /** The number of cached lookups */
+    get cacheSize(): number {
+        return Object.keys(this.plugin.settings.reverseGeocodingCache ?? {})
+            .length;
+    }
+
+    async clearCache() {
+        this.plugin.settings.reverseGeocodingCache = {};
+        await this.plugin.saveSettings();
+    }
+
+    // Lookups are cached per provider, with coordinates rounded to about a meter
+    private cacheKey(location: leaflet.LatLng) {
+        return `${this.plugin.settings.searchProvider}:${location.lat.toFixed(
+            5,
+        )},${location.lng.toFixed(5)}`;
+    }
+
+    private async query(location: leaflet.LatLng): Promise<PlaceDetails> {
+        const settings = this.plugin.settings;
+        if (settings.searchProvider === 'google')
+            return googleReverseGeocode(location, settings.geocodingApiKey);
+        else if (settings.searchProvider === 'cn')
+            return amapReverseGeocode(location, settings.amapApiKey);
+        else
+            return nominatimReverseGeocode(
+                location,
+                settings.reverseGeocodingUrl ||
+                    consts.DEFAULT_REVERSE_GEOCODING_URL,
+            );
+    }
+}
+
+async function nominatimReverseGeocode(
+    location: leaflet.LatLng,
+    url: string,
+): Promise<PlaceDetails> {
+    const params = {
+        format: 'jsonv2',
+        lat: location.lat,
+        lon: location.lng,
+        addressdetails: 1,
+    };
+    const content = await request({
+        url: url + '?' + queryString.stringify(params),
+    });
+    const json = JSON.parse(content);
+    if (!json || json.error) return null;
+    const address = json.address ?? {};
+    return {
+        address: json.display_name ?? '',
+        city:
+            address.city ??
+            address.town ??
+            address.village ??
+            address.hamlet ??
+            address.municipality ??
+            '',
+        country: address.country ?? '',
+    };
+}
+
+async function googleReverseGeocode(
+    location: leaflet.LatLng,
+    apiKey: string,
+): Promise<PlaceDetails> {
+    const params = {
+        latlng: `${location.lat},${location.lng}`,
+        key: apiKey,
+    };
+    const content = await request({
+        url:
+            'https://maps.googleapis.com/maps/api/geocode/json?' +
+            queryString.stringify(params),
+    });
+    const json = JSON.parse(content);
+    const result = json?.results?.[0];
+    if (!result) return null;
+    const component = (type: string) =>
+        result.address_components?.find((component: any) =>
+            component.types?.includes(type),
+        )?.long_name;
+    return {
+        address: result.formatted_address ?? '',
+        city: component('locality') ?? component('postal_town') ?? '',
+        country: component('country') ?? '',
+    };
+}
+
+async function amapReverseGeocode(
+    location: leaflet.LatLng,
+    apiKey: string,
+): Promise<PlaceDetails> {
+    // Note that AMap expects the longitude first
+    const params = {
+        location: `${location.lng},${location.lat}`,
+        key: apiKey,
+    };
+    const content = await request({
+        url:
+            'https://restapi.amap.com/v3/geocode/regeo?' +
+            queryString.stringify(params),
+    });
+    const json = JSON.parse(content);
+    const result = json?.regeocode;
+    if (!result) return null;
+    const address = result.addressComponent ?? {};
+    // For municipalities AMap returns an empty list as the city, and the city is the province
+    const city =
+        typeof address.city === 'string' && address.city
+            ? address.city
+            : address.province;
+    return {
+        address:
+            typeof result.formatted_address === 'string'
+                ? result.formatted_address
+                : '',
+        city: typeof city === 'string' ? city : '',
+        country: typeof address.country === 'string' ? address.country : '',
+    };
+}
@@ -0,0 +1,55 @@
+import { requestUrl } from 'obsidian';
+import * as leaflet from 'leaflet';
+import type { LineString } from 'geojson';
+import { type PluginSettings, DEFAULT_SETTINGS } from 'src/settings';
+
+/** A route calculated by the routing engine */
+export type Route = {
+    geometry: LineString;
+    /** The route distance in meters */
+    distance: number;
+    /** The route duration in seconds */
+    duration: number;
+};
+
+/**
+ * Calculate a route between two points using the OSRM-compatible routing engine configured in the settings.
+ * Throws an error with a user-readable message if the route cannot be calculated.
+ */
+export async function getRoute(
+    from: leaflet.LatLng,
+    to: leaflet.LatLng,
+    settings: PluginSettings,
+): Promise<Route> {
+    const baseUrl = settings.routingEngineUrl?.trim().replace(/\/+$/, '');
+    if (!baseUrl) throw new Error('No routing engine is configured');
+    const profile =
+        settings.routingEngineProfile?.trim() ||
+        DEFAULT_SETTINGS.routingEngineProfile;
+    // OSRM coordinates are in lng,lat order
+    const coordinates = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const url = `${baseUrl}/route/v1/${profile}/${coordinates}?overview=full&geometries=geojson`;
+    let response;
+    try {
+        response = await requestUrl({ url, throw: false });
+    } catch (e) {
+        throw new Error(`Cannot reach the routing engine at ${baseUrl}`);
+    }
+    let json;
+    try {
+        json = response.json;
+    } catch (e) {
+        json = null;
+    }
+    if (response.status !== 200 || json?.code !== 'Ok')
+        throw new Error(
+            `The routing engine returned an error: ${json?.message ?? json?.code ?? response.status}`,
+        );
+    const route = json.routes?.[0];
+    if (!route) throw new Error('No route found');
+    return {
+        geometry: route.geometry,
+        distance: route.distance,
+        duration: route.duration,
+    };
+}
@@ -0,0 +1,161 @@
+import * as leaflet from 'leaflet';
+import { FileMarker, type MarkersMap } from 'src/markers';
+
+export type SelectionMode = 'rectangle' | 'lasso';
+
+/**
+ * The map selection tool: while active, dragging on the map draws a rectangle (or a free-form lasso) and selects
+ * the markers inside it. Holding Shift adds to the existing selection instead of replacing it.
+ * The selection is kept by marker IDs, so it survives the markers being rebuilt when notes change.
+ */
+export class SelectionTool {
+    private map: leaflet.Map;
+    private markers: MarkersMap = new Map();
+    private selectedIds: Set<string> = new Set();
+    /** The shape being drawn, while the mouse is dragged */
+    private shape: leaflet.Polygon = null;
+    private points: leaflet.LatLng[] = [];
+    private addToSelection = false;
+    /** Called whenever the selection changes */
+    private onChange: () => void;
+    private mouseDownHandler = (event: leaflet.LeafletMouseEvent) =>
+        this.startShape(event);
+    private mouseMoveHandler = (event: leaflet.LeafletMouseEvent) =>
+        this.extendShape(event.latlng);
+    private mouseUpHandler = () => this.endShape();
+    public active = false;
+    public mode: SelectionMode = 'rectangle';
+
+    constructor(map: leaflet.Map, onChange: () => void) {
+        this.map = map;
+        this.onChange = onChange;
+    }
+
+    /** The selected markers, out of the markers currently on the map */
+    get selected(): FileMarker[] {
+        let selected: FileMarker[] = [];
+        for (const id of this.selectedIds) {
+            const marker = this.markers.get(id);
+            if (marker instanceof FileMarker) selected.push(marker);
+        }
+        return selected;
+    }
+
+    start() {
+        if (this.active) return;
+        this.active = true;
+        // Dragging selects rather than pans, and Shift+drag adds to the selection rather than zooms
+        this.map.dragging.disable();
+        this.map.boxZoom.disable();
+        this.map.on('mousedown', this.mouseDownHandler);
+        this.map.getContainer().addClass('mv-selecting');
+        this.onChange();
+    }
+
+    stop() {
+        if (!this.active) return;
+        this.active = false;
+        this.map.off('mousedown', this.mouseDownHandler);
+        this.map.off('mousemove', this.mouseMoveHandler);
+        this.map.off('mouseup', this.mouseUpHandler);
+        this.map.dragging.enable();
+        this.map.boxZoom.enable();
+        this.map.getContainer().removeClass('mv-selecting');
+        this.shape?.remove();
+        this.shape = null;
+        this.clear();
+    }
+
+    setMode(mode: SelectionMode) {
+        this.mode = mode;
+        this.onChange();
+    }
+
+    clear() {
+        this.setSelection([]);
+    }
+
+    /** Update the tool with the markers that are now on the map, dropping selected markers that are no longer there */
+    updateMarkers(markers: MarkersMap) {
+        this.markers = markers;
+        const ids = Array.from(this.selectedIds).filter((id) =>
+            markers.has(id),
+        );
+        this.setSelection(ids);
+    }
+
+    private setSelection(ids: string[]) {
+        for (const marker of this.selected)
+            marker.geoLayer?.getElement()?.removeClass('mv-selected-marker');
+        this.selectedIds = new Set(ids);
+        for (const marker of this.selected)
+            marker.geoLayer?.getElement()?.addClass('mv-selected-marker');
+        this.onChange();
+    }
+
+    private startShape(event: leaflet.LeafletMouseEvent) {
+        this.addToSelection = event.originalEvent.shiftKey;
+        this.points = [event.latlng];
+        this.shape?.remove();
+        this.shape = leaflet
+            .polygon([], {
+                className: 'mv-selection-shape',
+                weight: 2,
+                dashArray: '4 4',
+                interactive: false,
+            })
+            .addTo(this.map);
+        this.map.on('mousemove', this.mouseMoveHandler);
+        this.map.on('mouseup', this.mouseUpHandler);
+    }
+
+    private extendShape(point: leaflet.LatLng) {
+        if (this.mode === 'rectangle') {
+            const bounds = leaflet.latLngBounds(this.points[0], point);
+            this.shape.setLatLngs([
+                bounds.getNorthWest(),
+                bounds.getNorthEast(),
+                bounds.getSouthEast(),
+                bounds.getSouthWest(),
+            ]);
+        } else {
+            this.points.push(point);
+            this.shape.setLatLngs(this.points);
+        }
+    }
+
+    private endShape() {
+        this.map.off('mousemove', this.mouseMoveHandler);
+        this.map.off('mouseup', this.mouseUpHandler);
+        const polygon = this.shape.getLatLngs()[0] as leaflet.LatLng[];
+        this.shape.remove();
+        this.shape = null;
+        // A click without dragging clears the selection (unless Shift is held)
+        let ids = this.addToSelection ? Array.from(this.selectedIds) : [];
+        if (polygon?.length > 2)
+            for (const marker of this.markers.values())
+                if (
+                    marker instanceof FileMarker &&
+                    isPointInPolygon(marker.location, polygon)
+                )
+                    ids.push(marker.id);
+        this.setSelection(ids);
+    }
+}
+
+// Ray casting, treating coordinates as planar, which is accurate enough for shapes drawn on the screen
+function isPointInPolygon(point: leaflet.LatLng, polygon: leaflet.LatLng[]) {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if (
+            a.lat > point.lat !== b.lat > point.lat &&
+            point.lng <
+                ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) +
+                    a.lng
+        )
+            inside = !inside;
+    }
+    return inside;
+}
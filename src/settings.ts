@@ -3,8 +3,10 @@ import { type SplitDirection, Notice } from 'obsidian';
 import { type MapState, type LegacyMapState, mergeStates } from 'src/mapState';
 import MapViewPlugin from 'src/main';
 import * as consts from 'src/consts';
+import { type PlaceDetails } from 'src/reverseGeocoding';
 
 export type GeoHelperType = 'url' | 'commandline';
+export type TimelineDateSource = 'property' | 'dailyNote' | 'ctime';
 export type LegacyOpenBehavior = 'samePane' | 'secondPane' | 'alwaysNew';
 export type OpenBehavior =
     | 'replaceCurrent'
@@ -21,8 +23,11 @@ export type PluginSettings = {
     // all the fields of a full map state.
     savedStates: Partial<MapState[]>;
     markerIconRules: MarkerIconRule[];
+    edgeStyleRules: EdgeStyleRule[];
+    showLinkLabels: boolean;
     zoomOnGoFromNote: number;
     mapSources: TileSource[];
+    overlaySources: OverlaySource[];
     frontMatterKey: string;
     chosenMapMode?: MapLightDark;
     autoZoom: boolean;
@@ -42,6 +47,7 @@ export type PluginSettings = {
     showNativeObsidianHoverPopup: boolean;
     showNotePreview: boolean;
     showClusterPreview: boolean;
+    snapMarkerMoves: boolean;
     debug: boolean;
     openIn: OpenInSettings[];
     urlParsingRules: UrlParsingRule[];
@@ -53,6 +59,11 @@ export type PluginSettings = {
     amapApiKey: string;
     baiduAPikey: string;
     useGooglePlaces: boolean;
+    reverseGeocoding: boolean;
+    /** A Nominatim-compatible reverse geocoding endpoint, used when the search provider is OpenStreetMap */
+    reverseGeocodingUrl: string;
+    /** Cached reverse geocoding results, by provider and rounded location */
+    reverseGeocodingCache: Record<string, PlaceDetails>;
     saveHistory: boolean;
     queryForFollowActiveNote: string;
     supportRealTimeGeolocation: boolean;
@@ -62,11 +73,17 @@ export type PluginSettings = {
     geoHelperCommand: string;
     geoHelperUrl: string;
     tagForGeolocationNotes: string;
+    loadGeoFiles: boolean;
+    timelineDateSource: TimelineDateSource;
+    timelineDateProperty: string;
+    timelineDailyNoteFormat: string;
     handleGeolinksInNotes: boolean;
     showGeolinkPreview: boolean;
     zoomOnGeolinkPreview: number;
     handleGeolinkContextMenu: boolean;
     routingUrl: string;
+    routingEngineUrl: string;
+    routingEngineProfile: string;
     cacheAllTiles: boolean;
     offlineMaxTileAgeMonths: number;
     offlineMaxStorageGb: number;
@@ -84,16 +101,48 @@ export type DepracatedFields = {
 
 export type MapLightDark = 'auto' | 'light' | 'dark';
 
+/**
+ * Where the tiles of a map source are read from:
+ * - 'url' is a remote tile server, and the URLs are templates such as `https://.../{z}/{x}/{y}.png`.
+ * - 'folder' is a folder of `{z}/{x}/{y}.png` tiles in the vault, and the URLs are paths of such folders.
+ * - 'mbtiles' is an MBTiles file in the vault, and the URLs are paths of such files.
+ * - 'vector' is rendered from vector tiles, and the URLs are URLs or vault paths of PMTiles archives, or URL
+ *   templates of MVT tiles.
+ */
+export type TileSourceType = 'url' | 'folder' | 'mbtiles' | 'vector';
+
 export type TileSource = {
     name: string;
+    /** Defaults to 'url' */
+    sourceType?: TileSourceType;
     urlLight: string;
     urlDark?: string;
+    /** For vector sources, the name of a Protomaps flavor or the vault path of a JSON file of colors */
+    styleLight?: string;
+    styleDark?: string;
     currentMode?: MapLightDark;
     preset?: boolean;
     ignoreErrors?: boolean;
     maxZoom?: number;
 };
 
+/**
+ * A layer that can be displayed on top of the map source:
+ * - 'tiles' is a tile server, and the URL is a template such as `https://.../{z}/{x}/{y}.png`.
+ * - 'wms' is a WMS server, and the URL is its base URL.
+ */
+export type OverlaySourceType = 'tiles' | 'wms';
+
+export type OverlaySource = {
+    name: string;
+    /** Defaults to 'tiles' */
+    sourceType?: OverlaySourceType;
+    url: string;
+    /** For WMS sources, the comma-separated names of the layers to request */
+    wmsLayers?: string;
+    maxZoom?: number;
+};
+
 export type OpenInSettings = {
     name: string;
     urlPattern: string;
@@ -120,6 +169,8 @@ export type MapControls = {
     filtersDisplayed: boolean;
     viewDisplayed: boolean;
     linksDisplayed: boolean;
+    timelineDisplayed: boolean;
+    markerListDisplayed: boolean;
     presetsDisplayed: boolean;
 };
 
@@ -129,6 +180,24 @@ export type MarkerIconRule = {
     iconDetails: any;
 };
 
+/** How an edge (a line representing a link between markers) is drawn. Missing fields keep their default */
+export type EdgeStyle = {
+    color?: string;
+    /** The line width in pixels */
+    weight?: number;
+    /** An SVG dash pattern, e.g. '6 4' */
+    dashArray?: string;
+    /** Whether to draw an arrowhead that shows the direction of the link */
+    arrow?: boolean;
+};
+
+export type EdgeStyleRule = {
+    /** A tag pattern of the linking note (e.g. '#flight'), or 'alias:' followed by a pattern of the link alias
+     * (e.g. 'alias:flew*') */
+    ruleName: string;
+    style: EdgeStyle;
+};
+
 export const DEFAULT_SETTINGS: PluginSettings = {
     defaultState: {
         name: 'Default',
@@ -145,8 +214,17 @@ export const DEFAULT_SETTINGS: PluginSettings = {
         showLinks: false,
         linkColor: 'red',
         markerLabels: 'off',
+        displayMode: 'markers',
+        heatmapWeightProperty: '',
+        timeFrom: '',
+        timeTo: '',
+        nearestCount: 0,
+        itinerary: false,
+        overlays: [],
     },
     savedStates: [],
+    edgeStyleRules: [],
+    showLinkLabels: false,
     markerIconRules: [
         {
             ruleName: 'default',
@@ -194,6 +272,7 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     showNativeObsidianHoverPopup: false,
     showNotePreview: true,
     showClusterPreview: true,
+    snapMarkerMoves: true,
     debug: false,
     openIn: [
         {
@@ -227,6 +306,8 @@ export const DEFAULT_SETTINGS: PluginSettings = {
         filtersDisplayed: true,
         viewDisplayed: true,
         linksDisplayed: false,
+        timelineDisplayed: false,
+        markerListDisplayed: false,
         presetsDisplayed: false,
     },
     maxClusterRadiusPixels: 20,
@@ -236,6 +317,9 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     amapApiKey: '',
     baiduAPikey: '',
     useGooglePlaces: false,
+    reverseGeocoding: false,
+    reverseGeocodingUrl: consts.DEFAULT_REVERSE_GEOCODING_URL,
+    reverseGeocodingCache: {},
     mapSources: [
         {
             name: 'CartoDB',
@@ -244,6 +328,7 @@ export const DEFAULT_SETTINGS: PluginSettings = {
             preset: true,
         },
     ],
+    overlaySources: [],
     frontMatterKey: 'location',
     chosenMapMode: 'auto',
     saveHistory: true,
@@ -256,12 +341,18 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     geoHelperCommand: 'chrome',
     geoHelperUrl: 'https://esm7.github.io/obsidian-geo-helper/',
     tagForGeolocationNotes: '',
+    loadGeoFiles: false,
+    timelineDateSource: 'property',
+    timelineDateProperty: 'date',
+    timelineDailyNoteFormat: 'YYYY-MM-DD',
     handleGeolinksInNotes: true,
     showGeolinkPreview: false,
     zoomOnGeolinkPreview: 10,
     handleGeolinkContextMenu: true,
     routingUrl:
         'https://www.google.com/maps/dir/?api=1&origin={x0},{y0}&destination={x1},{y1}',
+    routingEngineUrl: '',
+    routingEngineProfile: 'driving',
     cacheAllTiles: true,
     // 0 means never automatically purge
     offlineMaxTileAgeMonths: 6,
@@ -14,9 +14,17 @@ import {
     type UrlParsingContentType,
     type GeoHelperType,
     type LinkNamePopupBehavior,
+    type TimelineDateSource,
+    type TileSourceType,
+    type OverlaySourceType,
     DEFAULT_SETTINGS,
 } from 'src/settings';
-import { getIconFromOptions, getIconFromRules } from 'src/markerIcons';
+import {
+    getIconFromOptions,
+    getIconFromRules,
+    isQueryRule,
+} from 'src/markerIcons';
+import { Query } from 'src/query';
 import { BaseMapView } from 'src/baseMapView';
 import * as consts from 'src/consts';
 import { DEFAULT_MAX_TILE_ZOOM, MAX_ZOOM } from 'src/consts';
@@ -195,7 +203,7 @@ export class SettingsTab extends PluginSettingTab {
         new Setting(containerEl)
             .setName('New note name format')
             .setDesc(
-                'Date/times in the format can be wrapped in {{date:...}}, e.g. "note-{{date:YYYY-MM-DD}}". Search queries can be added with {{query}}.',
+                'Date/times in the format can be wrapped in {{date:...}}, e.g. "note-{{date:YYYY-MM-DD}}". Search queries can be added with {{query}}, and with reverse geocoding turned on, also {{address}}, {{city}} and {{country}}.',
             )
             .addText((component) => {
                 component
@@ -232,6 +240,53 @@ export class SettingsTab extends PluginSettingTab {
                         this.plugin.saveSettings();
                     });
             });
+        let reverseGeocodingUrlControl: Setting = null;
+        new Setting(containerEl)
+            .setName('Reverse geocoding')
+            .setDesc(
+                'When creating a note from the map or pasting a geolocation, look up its address using the geocoding search provider. The address, city and country can then be used in the note name format and template as {{address}}, {{city}} and {{country}}, and pasted geolocations are labeled with the address. Results are cached, so looking up the same location again works offline.',
+            )
+            .addToggle((component) => {
+                component
+                    .setValue(
+                        this.plugin.settings.reverseGeocoding ??
+                            DEFAULT_SETTINGS.reverseGeocoding,
+                    )
+                    .onChange(async (value) => {
+                        this.plugin.settings.reverseGeocoding = value;
+                        await this.plugin.saveSettings();
+                        reverseGeocodingUrlControl.settingEl.style.display =
+                            value ? '' : 'none';
+                    });
+            });
+        reverseGeocodingUrlControl = new Setting(containerEl)
+            .setName('Reverse geocoding URL')
+            .setDesc(
+                'A Nominatim-compatible reverse geocoding endpoint, used when the search provider is OpenStreetMap. Please respect the usage policy of the server you use.',
+            )
+            .addText((component) => {
+                component
+                    .setPlaceholder(DEFAULT_SETTINGS.reverseGeocodingUrl)
+                    .setValue(this.plugin.settings.reverseGeocodingUrl ?? '')
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.reverseGeocodingUrl = value;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addButton((component) =>
+                component
+                    .setButtonText(
+                        `Clear cache (${this.plugin.reverseGeocoder.cacheSize})`,
+                    )
+                    .onClick(async () => {
+                        await this.plugin.reverseGeocoder.clearCache();
+                        component.setButtonText('Clear cache (0)');
+                    }),
+            );
+        reverseGeocodingUrlControl.settingEl.style.display = this.plugin
+            .settings.reverseGeocoding
+            ? ''
+            : 'none';
         new Setting(containerEl)
             .setName('Max cluster size in pixels')
             .setDesc(
@@ -359,6 +414,22 @@ export class SettingsTab extends PluginSettingTab {
                         this.plugin.saveSettings();
                     });
             });
+        new Setting(containerEl)
+            .setName('Display GeoJSON, GPX and KML files')
+            .setDesc(
+                'Show the GeoJSON, GPX and KML files of your vault as map layers (tracks, routes, shapes and points).',
+            )
+            .addToggle((component) => {
+                component
+                    .setValue(
+                        this.plugin.settings.loadGeoFiles ??
+                            DEFAULT_SETTINGS.loadGeoFiles,
+                    )
+                    .onChange(async (value) => {
+                        this.plugin.settings.loadGeoFiles = value;
+                        this.plugin.saveSettings();
+                    });
+            });
         new Setting(containerEl)
             .setName('Routing service URL')
             .setDesc(
@@ -375,6 +446,111 @@ export class SettingsTab extends PluginSettingTab {
                         this.plugin.saveSettings();
                     });
             });
+        new Setting(containerEl)
+            .setName('Routing engine URL')
+            .setDesc(
+                'The base URL of an OSRM-compatible routing server (e.g. a self-hosted OSRM), used for "show route on map". Leave empty to turn off routing inside the map.',
+            )
+            .addText((component) => {
+                component
+                    .setPlaceholder('http://localhost:5000')
+                    .setValue(
+                        this.plugin.settings.routingEngineUrl ??
+                            DEFAULT_SETTINGS.routingEngineUrl,
+                    )
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.routingEngineUrl = value;
+                        this.plugin.saveSettings();
+                    });
+            });
+        new Setting(containerEl)
+            .setName('Routing engine profile')
+            .setDesc(
+                'The routing profile to request from the routing engine, e.g. driving, walking or cycling (depending on the profiles the server supports).',
+            )
+            .addText((component) => {
+                component
+                    .setPlaceholder(DEFAULT_SETTINGS.routingEngineProfile)
+                    .setValue(
+                        this.plugin.settings.routingEngineProfile ??
+                            DEFAULT_SETTINGS.routingEngineProfile,
+                    )
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.routingEngineProfile = value;
+                        this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setHeading()
+            .setName('Timeline')
+            .setDesc(
+                'How the timeline controls of the map find the date of each marker.',
+            );
+        let timelinePropertyControl: Setting = null;
+        let timelineDailyNoteControl: Setting = null;
+        new Setting(containerEl)
+            .setName('Marker date source')
+            .setDesc(
+                'Take the date of markers from a front matter property of their note, from the note name (for daily notes) or from the note creation time.',
+            )
+            .addDropdown((component) => {
+                component
+                    .addOption('property', 'Front matter property')
+                    .addOption('dailyNote', 'Daily note name')
+                    .addOption('ctime', 'Note creation time')
+                    .setValue(
+                        this.plugin.settings.timelineDateSource ||
+                            DEFAULT_SETTINGS.timelineDateSource,
+                    )
+                    .onChange(async (value: TimelineDateSource) => {
+                        this.plugin.settings.timelineDateSource = value;
+                        await this.plugin.saveSettings();
+                        timelinePropertyControl.settingEl.style.display =
+                            value === 'property' ? '' : 'none';
+                        timelineDailyNoteControl.settingEl.style.display =
+                            value === 'dailyNote' ? '' : 'none';
+                    });
+            });
+        timelinePropertyControl = new Setting(containerEl)
+            .setName('Date property')
+            .setDesc(
+                'The front matter property holding the date of a note, e.g. 2024-05-30.',
+            )
+            .addText((component) => {
+                component
+                    .setPlaceholder(DEFAULT_SETTINGS.timelineDateProperty)
+                    .setValue(
+                        this.plugin.settings.timelineDateProperty ??
+                            DEFAULT_SETTINGS.timelineDateProperty,
+                    )
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.timelineDateProperty = value;
+                        this.plugin.saveSettings();
+                    });
+            });
+        timelineDailyNoteControl = new Setting(containerEl)
+            .setName('Daily note name format')
+            .setDesc('The moment.js format of daily note names.')
+            .addText((component) => {
+                component
+                    .setPlaceholder(DEFAULT_SETTINGS.timelineDailyNoteFormat)
+                    .setValue(
+                        this.plugin.settings.timelineDailyNoteFormat ??
+                            DEFAULT_SETTINGS.timelineDailyNoteFormat,
+                    )
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.timelineDailyNoteFormat = value;
+                        this.plugin.saveSettings();
+                    });
+            });
+        const timelineDateSource =
+            this.plugin.settings.timelineDateSource ||
+            DEFAULT_SETTINGS.timelineDateSource;
+        timelinePropertyControl.settingEl.style.display =
+            timelineDateSource === 'property' ? '' : 'none';
+        timelineDailyNoteControl.settingEl.style.display =
+            timelineDateSource === 'dailyNote' ? '' : 'none';
 
         new Setting(containerEl)
             .setHeading()
@@ -529,6 +705,23 @@ export class SettingsTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName('Snap moved markers')
+            .setDesc(
+                'When dragging a marker to move it, snap it to a nearby search result or marker. Hold Alt while dragging to place the marker freely.',
+            )
+            .addToggle((component) => {
+                component
+                    .setValue(
+                        this.plugin.settings.snapMarkerMoves ??
+                            DEFAULT_SETTINGS.snapMarkerMoves,
+                    )
+                    .onChange(async (value) => {
+                        this.plugin.settings.snapMarkerMoves = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         new Setting(containerEl)
             .setHeading()
             .setName('Pane & Tab Usage')
@@ -674,7 +867,7 @@ export class SettingsTab extends PluginSettingTab {
         const mapSources = new Setting(containerEl)
             .setHeading()
             .setName('Map Sources');
-        mapSources.descEl.innerHTML = `Change and switch between sources for map tiles. An optional dark mode URL can be defined for each source. If no such URL is defined and dark mode is used, the map colors are reverted. See <a href="https://github.com/esm7/obsidian-map-view?tab=readme-ov-file#map-sources">the documentation</a> for more details.`;
+        mapSources.descEl.innerHTML = `Change and switch between sources for map tiles. A source can be a tile server URL, a folder of tiles in the vault, an MBTiles file in the vault or vector tiles (e.g. a PMTiles file) with a style. An optional dark mode URL or path can be defined for each source. If no such URL is defined and dark mode is used, the map colors are reverted. See <a href="https://github.com/esm7/obsidian-map-view?tab=readme-ov-file#map-sources">the documentation</a> for more details.`;
 
         let mapSourcesDiv: HTMLDivElement = null;
         new Setting(containerEl).addButton((component) =>
@@ -692,6 +885,26 @@ export class SettingsTab extends PluginSettingTab {
         mapSourcesDiv = containerEl.createDiv();
         this.refreshMapSourceSettings(mapSourcesDiv);
 
+        const overlaySources = new Setting(containerEl)
+            .setHeading()
+            .setName('Overlay Layers');
+        overlaySources.descEl.innerHTML = `Layers that can be turned on in the View pane on top of the map source, e.g. hillshading or hiking trails. An overlay can be a tile server URL or a WMS server with the names of its layers. See <a href="https://github.com/esm7/obsidian-map-view?tab=readme-ov-file#overlay-layers">the documentation</a> for more details.`;
+
+        let overlaySourcesDiv: HTMLDivElement = null;
+        new Setting(containerEl).addButton((component) =>
+            component.setButtonText('New overlay layer').onClick(() => {
+                this.plugin.settings.overlaySources.push({
+                    name: '',
+                    url: '',
+                    maxZoom: DEFAULT_MAX_TILE_ZOOM,
+                });
+                this.refreshOverlaySourceSettings(overlaySourcesDiv);
+                this.refreshPluginOnHide = true;
+            }),
+        );
+        overlaySourcesDiv = containerEl.createDiv();
+        this.refreshOverlaySourceSettings(overlaySourcesDiv);
+
         new Setting(containerEl)
             .setHeading()
             .setName('Custom "Open In" Actions')
@@ -753,6 +966,44 @@ export class SettingsTab extends PluginSettingTab {
         markerIconsDiv = containerEl.createDiv();
         this.refreshMarkerIcons(markerIconsDiv);
 
+        new Setting(containerEl)
+            .setHeading()
+            .setName('Link Styles')
+            .setDesc(
+                "Customize the lines of links between markers by the tags of the linking note (e.g. '#flight') or by the link alias (e.g. 'alias:flew to' for [[Paris|flew to]]). Wildcards are supported, and the rules override each other, starting from the link color of the map.",
+            );
+        new Setting(containerEl)
+            .setName('Show link labels')
+            .setDesc(
+                'Show the alias of each link (e.g. "flew to" for [[Paris|flew to]]) as a label on its line.',
+            )
+            .addToggle((component) => {
+                component
+                    .setValue(
+                        this.plugin.settings.showLinkLabels ??
+                            DEFAULT_SETTINGS.showLinkLabels,
+                    )
+                    .onChange(async (value) => {
+                        this.plugin.settings.showLinkLabels = value;
+                        this.refreshPluginOnHide = true;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        let edgeStylesDiv: HTMLDivElement = null;
+        new Setting(containerEl).addButton((component) =>
+            component.setButtonText('New Link Style').onClick(() => {
+                this.plugin.settings.edgeStyleRules ??= [];
+                this.plugin.settings.edgeStyleRules.push({
+                    ruleName: '',
+                    style: {},
+                });
+                this.refreshEdgeStyleRules(edgeStylesDiv);
+            }),
+        );
+        edgeStylesDiv = containerEl.createDiv();
+        this.refreshEdgeStyleRules(edgeStylesDiv);
+
         new Setting(containerEl).setHeading().setName('Offline Maps');
         new Setting(containerEl)
             .setName('Manage offline storage')
@@ -956,6 +1207,12 @@ export class SettingsTab extends PluginSettingTab {
 
     refreshMapSourceSettings(containerEl: HTMLElement) {
         containerEl.innerHTML = '';
+        const sourcePlaceholders: Record<TileSourceType, string> = {
+            url: 'URL',
+            folder: 'Folder path',
+            mbtiles: '.mbtiles file path',
+            vector: 'PMTiles URL or path',
+        };
         for (const setting of this.plugin.settings.mapSources) {
             const controls = new Setting(containerEl)
                 .addText((component) => {
@@ -968,9 +1225,28 @@ export class SettingsTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                         }).inputEl.style.width = '10em';
                 })
+                .addDropdown((component) => {
+                    component
+                        .addOptions({
+                            url: 'URL',
+                            folder: 'Vault folder',
+                            mbtiles: 'MBTiles file',
+                            vector: 'Vector tiles',
+                        })
+                        .setValue(setting.sourceType ?? 'url')
+                        .onChange(async (value: TileSourceType) => {
+                            setting.sourceType = value;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                            // Update the placeholders to match the type
+                            this.refreshMapSourceSettings(containerEl);
+                        });
+                })
                 .addText((component) => {
                     component
-                        .setPlaceholder('URL (light/default)')
+                        .setPlaceholder(
+                            `${sourcePlaceholders[setting.sourceType ?? 'url']} (light/default)`,
+                        )
                         .setValue(setting.urlLight)
                         .onChange(async (value: string) => {
                             setting.urlLight = value;
@@ -980,32 +1256,54 @@ export class SettingsTab extends PluginSettingTab {
                 })
                 .addText((component) => {
                     component
-                        .setPlaceholder('URL (dark) (opt.)')
+                        .setPlaceholder(
+                            `${sourcePlaceholders[setting.sourceType ?? 'url']} (dark) (opt.)`,
+                        )
                         .setValue(setting.urlDark)
                         .onChange(async (value: string) => {
                             setting.urlDark = value;
                             this.refreshPluginOnHide = true;
                             await this.plugin.saveSettings();
                         }).inputEl.style.width = '10em';
-                })
-                .addText((component) => {
-                    component
-                        .setPlaceholder('Max Tile Zoom')
-                        .setValue(
-                            (
-                                setting.maxZoom ?? DEFAULT_MAX_TILE_ZOOM
-                            ).toString(),
-                        )
-                        .onChange(async (value: string) => {
-                            let zoom = parseInt(value);
-                            if (typeof zoom == 'number') {
-                                zoom = Math.min(Math.max(0, zoom), MAX_ZOOM);
-                                setting.maxZoom = zoom;
+                });
+            if (setting.sourceType === 'vector')
+                controls
+                    .addText((component) => {
+                        component
+                            .setPlaceholder('Style (light)')
+                            .setValue(setting.styleLight)
+                            .onChange(async (value: string) => {
+                                setting.styleLight = value;
                                 this.refreshPluginOnHide = true;
                                 await this.plugin.saveSettings();
-                            }
-                        }).inputEl.style.width = '3em';
-                });
+                            }).inputEl.style.width = '7em';
+                    })
+                    .addText((component) => {
+                        component
+                            .setPlaceholder('Style (dark)')
+                            .setValue(setting.styleDark)
+                            .onChange(async (value: string) => {
+                                setting.styleDark = value;
+                                this.refreshPluginOnHide = true;
+                                await this.plugin.saveSettings();
+                            }).inputEl.style.width = '7em';
+                    });
+            controls.addText((component) => {
+                component
+                    .setPlaceholder('Max Tile Zoom')
+                    .setValue(
+                        (setting.maxZoom ?? DEFAULT_MAX_TILE_ZOOM).toString(),
+                    )
+                    .onChange(async (value: string) => {
+                        let zoom = parseInt(value);
+                        if (typeof zoom == 'number') {
+                            zoom = Math.min(Math.max(0, zoom), MAX_ZOOM);
+                            setting.maxZoom = zoom;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }
+                    }).inputEl.style.width = '3em';
+            });
             if (!setting.preset)
                 controls.addButton((component) =>
                     component.setButtonText('Delete').onClick(async () => {
@@ -1020,6 +1318,86 @@ export class SettingsTab extends PluginSettingTab {
         }
     }
 
+    refreshOverlaySourceSettings(containerEl: HTMLElement) {
+        containerEl.innerHTML = '';
+        for (const setting of this.plugin.settings.overlaySources) {
+            const controls = new Setting(containerEl)
+                .addText((component) => {
+                    component
+                        .setPlaceholder('Name')
+                        .setValue(setting.name)
+                        .onChange(async (value: string) => {
+                            setting.name = value;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }).inputEl.style.width = '10em';
+                })
+                .addDropdown((component) => {
+                    component
+                        .addOptions({ tiles: 'Tiles', wms: 'WMS' })
+                        .setValue(setting.sourceType ?? 'tiles')
+                        .onChange(async (value: OverlaySourceType) => {
+                            setting.sourceType = value;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                            // Show or hide the WMS layers
+                            this.refreshOverlaySourceSettings(containerEl);
+                        });
+                })
+                .addText((component) => {
+                    component
+                        .setPlaceholder(
+                            setting.sourceType === 'wms'
+                                ? 'WMS server URL'
+                                : 'URL',
+                        )
+                        .setValue(setting.url)
+                        .onChange(async (value: string) => {
+                            setting.url = value;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        });
+                });
+            if (setting.sourceType === 'wms')
+                controls.addText((component) => {
+                    component
+                        .setPlaceholder('Layers')
+                        .setValue(setting.wmsLayers)
+                        .onChange(async (value: string) => {
+                            setting.wmsLayers = value;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }).inputEl.style.width = '7em';
+                });
+            controls.addText((component) => {
+                component
+                    .setPlaceholder('Max Tile Zoom')
+                    .setValue(
+                        (setting.maxZoom ?? DEFAULT_MAX_TILE_ZOOM).toString(),
+                    )
+                    .onChange(async (value: string) => {
+                        let zoom = parseInt(value);
+                        if (typeof zoom == 'number') {
+                            zoom = Math.min(Math.max(0, zoom), MAX_ZOOM);
+                            setting.maxZoom = zoom;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }
+                    }).inputEl.style.width = '3em';
+            });
+            controls.addButton((component) =>
+                component.setButtonText('Delete').onClick(async () => {
+                    this.plugin.settings.overlaySources.remove(setting);
+                    this.refreshPluginOnHide = true;
+                    await this.plugin.saveSettings();
+                    this.refreshOverlaySourceSettings(containerEl);
+                }),
+            );
+            controls.settingEl.style.padding = '5px';
+            controls.settingEl.style.borderTop = 'none';
+        }
+    }
+
     refreshOpenInSettings(containerEl: HTMLElement) {
         containerEl.innerHTML = '';
         for (const setting of this.plugin.settings.openIn) {
@@ -1054,6 +1432,77 @@ export class SettingsTab extends PluginSettingTab {
         }
     }
 
+    refreshEdgeStyleRules(containerEl: HTMLElement) {
+        containerEl.innerHTML = '';
+        for (const rule of this.plugin.settings.edgeStyleRules ?? []) {
+            const controls = new Setting(containerEl)
+                .addText((component) => {
+                    component
+                        .setPlaceholder('Tag or alias:name')
+                        .setValue(rule.ruleName)
+                        .onChange(async (value: string) => {
+                            rule.ruleName = value;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }).inputEl.style.width = '10em';
+                })
+                .addText((component) => {
+                    component
+                        .setPlaceholder('Color')
+                        .setValue(rule.style.color ?? '')
+                        .onChange(async (value: string) => {
+                            rule.style.color = value || undefined;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }).inputEl.style.width = '6em';
+                })
+                .addText((component) => {
+                    component
+                        .setPlaceholder('Width')
+                        .setValue(rule.style.weight?.toString() ?? '')
+                        .onChange(async (value: string) => {
+                            const weight = parseFloat(value);
+                            rule.style.weight = weight > 0 ? weight : undefined;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }).inputEl.style.width = '4em';
+                })
+                .addText((component) => {
+                    component
+                        .setPlaceholder('Dash, e.g. 6 4')
+                        .setValue(rule.style.dashArray ?? '')
+                        .onChange(async (value: string) => {
+                            rule.style.dashArray = value || undefined;
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        }).inputEl.style.width = '7em';
+                })
+                .addDropdown((component) => {
+                    component
+                        .addOption('', '(arrow)')
+                        .addOption('true', 'Arrow')
+                        .addOption('false', 'No arrow')
+                        .setValue(rule.style.arrow?.toString() ?? '')
+                        .onChange(async (value) => {
+                            rule.style.arrow =
+                                value === '' ? undefined : value === 'true';
+                            this.refreshPluginOnHide = true;
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addButton((component) =>
+                    component.setButtonText('Delete').onClick(async () => {
+                        this.plugin.settings.edgeStyleRules.remove(rule);
+                        this.refreshPluginOnHide = true;
+                        await this.plugin.saveSettings();
+                        this.refreshEdgeStyleRules(containerEl);
+                    }),
+                );
+            controls.settingEl.style.padding = '5px';
+            controls.settingEl.style.borderTop = 'none';
+        }
+    }
+
     refreshUrlParsingRules(containerEl: HTMLElement) {
         containerEl.innerHTML = '';
         const parsingRules = this.plugin.settings.urlParsingRules;
@@ -1149,6 +1598,21 @@ export class SettingsTab extends PluginSettingTab {
         let rulesDiv = containerEl.createDiv();
         // The functions to update all icons, needed when the default rule changes
         let iconUpdateFunctions: (() => void)[] = [];
+        // Query rules that cannot be parsed never match, so they are marked in the rule name field
+        const validateRuleName = (
+            inputEl: HTMLInputElement,
+            ruleName: string,
+        ) => {
+            let error: string = null;
+            if (isQueryRule(ruleName))
+                try {
+                    new Query(this.app, ruleName, this.plugin.settings);
+                } catch (e) {
+                    error = e.message;
+                }
+            inputEl.toggleClass('graph-control-error', error !== null);
+            inputEl.title = error ? `Invalid query: ${error}` : '';
+        };
         const createRules = () => {
             rulesDiv.innerHTML = '';
             const rules = this.plugin.settings.markerIconRules;
@@ -1156,18 +1620,19 @@ export class SettingsTab extends PluginSettingTab {
                 // Assign each icon on the default one, so the preview will show how it looks when the icon properties
                 // override the default one
                 const setting = new Setting(rulesDiv)
-                    .addText(
-                        (component) =>
-                            (component
-                                .setPlaceholder('Tag name')
-                                .setDisabled(rule.preset)
-                                .setValue(rule.ruleName)
-                                .onChange(async (value) => {
-                                    rule.ruleName = value;
-                                    await this.plugin.saveSettings();
-                                    updateIconAndJson();
-                                }).inputEl.style.width = '10em'),
-                    )
+                    .addText((component) => {
+                        component
+                            .setPlaceholder('Tag name or query')
+                            .setDisabled(rule.preset)
+                            .setValue(rule.ruleName)
+                            .onChange(async (value) => {
+                                rule.ruleName = value;
+                                validateRuleName(component.inputEl, value);
+                                await this.plugin.saveSettings();
+                                updateIconAndJson();
+                            }).inputEl.style.width = '10em';
+                        validateRuleName(component.inputEl, rule.ruleName);
+                    })
                     .addText(
                         (component) =>
                             (component
@@ -0,0 +1,339 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import * as leaflet from 'leaflet';
+import {
+    getStorageInfo,
+    getTileUrl,
+    hasTile,
+    saveTile,
+    type StoredTile,
+} from 'leaflet.offline';
+// The asm.js build of SQLite is used because a plugin cannot ship a separate WebAssembly file
+import initSqlJs from 'sql.js/dist/sql-asm.js';
+import { zipSync, unzipSync } from 'fflate';
+import * as consts from 'src/consts';
+import { getWmsBbox } from 'src/overlays';
+import { MIME_TYPES } from 'src/localTiles';
+
+/**
+ * A tile pack is a file in the vault with offline tiles of a map source, so tiles downloaded on one device can be
+ * synced to others through the vault.
+ * - 'mbtiles' is an MBTiles (SQLite) file, which can also be used by other mapping apps.
+ * - 'zip' is a zip of a `z/x/y.png` folder structure (or `.jpg` and `.webp` for tiles of these types).
+ */
+export type TilePackFormat = 'mbtiles' | 'zip';
+
+export type TilePackOptions = {
+    /** Export only the tiles that intersect this area */
+    bounds?: leaflet.LatLngBounds;
+    minZoom?: number;
+    maxZoom?: number;
+};
+
+/** Called with the number of tiles processed so far out of the total */
+export type TilePackProgress = (done: number, total: number) => void;
+
+// Stored in the pack so it can be imported back to the same map source
+const URL_TEMPLATE_METADATA = 'mapview_url_template';
+const ZIP_METADATA_FILE = 'metadata.json';
+const ZIP_TILE_PATH = /(?:^|\/)(\d+)\/(\d+)\/(\d+)\.(\w+)$/;
+
+/** The stored tiles of a map source that match the options */
+export async function getTilesToExport(
+    urlTemplate: string,
+    options: TilePackOptions,
+): Promise<StoredTile[]> {
+    const tiles = await getStorageInfo(urlTemplate);
+    return tiles.filter(
+        (tile) =>
+            (options.minZoom === undefined || tile.z >= options.minZoom) &&
+            (options.maxZoom === undefined || tile.z <= options.maxZoom) &&
+            (!options.bounds ||
+                options.bounds.intersects(
+                    getTileBounds(tile.x, tile.y, tile.z),
+                )),
+    );
+}
+
+/** The format of a tile image, as used in MBTiles metadata and as a file extension, by its MIME type */
+function getTileFormat(blob: Blob) {
+    const mimeType = blob.type.split(';')[0].trim();
+    return (
+        Object.keys(MIME_TYPES).find(
+            (format) => MIME_TYPES[format] === mimeType,
+        ) ?? 'png'
+    );
+}
+
+function getTileBounds(x: number, y: number, z: number) {
+    const tileToLatLng = (tileX: number, tileY: number) => {
+        const n = Math.pow(2, z);
+        const lng = (tileX / n) * 360 - 180;
+        const latRad = Math.atan(Math.sinh(Math.PI * (1 - (2 * tileY) / n)));
+        return leaflet.latLng((latRad * 180) / Math.PI, lng);
+    };
+    return leaflet.latLngBounds(tileToLatLng(x, y), tileToLatLng(x + 1, y + 1));
+}
+
+/**
+ * Export tiles of a map source from the offline storage to a tile pack file in the vault.
+ * Throws an error with a user-readable message if the file cannot be created.
+ */
+export async function exportTilePack(
+    app: App,
+    tiles: StoredTile[],
+    urlTemplate: string,
+    format: TilePackFormat,
+    filePath: string,
+    onProgress: TilePackProgress,
+): Promise<TFile> {
+    const path = normalizePath(filePath);
+    if (app.vault.getAbstractFileByPath(path))
+        throw new Error(`${path} already exists`);
+    if (tiles.length === 0) throw new Error('There are no tiles to export');
+    const data =
+        format === 'mbtiles'
+            ? await tilesToMbtiles(tiles, urlTemplate, onProgress)
+            : await tilesToZip(tiles, urlTemplate, onProgress);
+    return await app.vault.createBinary(path, data);
+}
+
+async function tilesToMbtiles(
+    tiles: StoredTile[],
+    urlTemplate: string,
+    onProgress: TilePackProgress,
+): Promise<ArrayBuffer> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    try {
+        db.run(`CREATE TABLE metadata (name text, value text);
+            CREATE TABLE tiles (zoom_level integer, tile_column integer, tile_row integer, tile_data blob);
+            CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row);`);
+        const zooms = tiles.map((tile) => tile.z);
+        const bounds = leaflet.latLngBounds(
+            tiles.flatMap((tile) => {
+                const tileBounds = getTileBounds(tile.x, tile.y, tile.z);
+                return [tileBounds.getSouthWest(), tileBounds.getNorthEast()];
+            }),
+        );
+        const metadata: Record<string, string> = {
+            name: new URL(urlTemplate).hostname,
+            // MBTiles has a single format for all the tiles, and the tiles of a map source are all of the same type
+            format: getTileFormat(tiles[0].blob),
+            type: 'baselayer',
+            minzoom: Math.min(...zooms).toString(),
+            maxzoom: Math.max(...zooms).toString(),
+            bounds: [
+                bounds.getWest(),
+                bounds.getSouth(),
+                bounds.getEast(),
+                bounds.getNorth(),
+            ].join(','),
+            [URL_TEMPLATE_METADATA]: urlTemplate,
+        };
+        for (const [name, value] of Object.entries(metadata))
+            db.run('INSERT INTO metadata VALUES (?, ?)', [name, value]);
+        const insert = db.prepare(
+            'INSERT OR REPLACE INTO tiles VALUES (?, ?, ?, ?)',
+        );
+        db.run('BEGIN');
+        for (let i = 0; i < tiles.length; i++) {
+            const tile = tiles[i];
+            // MBTiles uses the TMS tile scheme, in which rows are counted from the south
+            insert.run([
+                tile.z,
+                tile.x,
+                Math.pow(2, tile.z) - 1 - tile.y,
+                new Uint8Array(await tile.blob.arrayBuffer()),
+            ]);
+            await reportProgress(onProgress, i + 1, tiles.length);
+        }
+        db.run('COMMIT');
+        insert.free();
+        return db.export().buffer as ArrayBuffer;
+    } finally {
+        db.close();
+    }
+}
+
+async function tilesToZip(
+    tiles: StoredTile[],
+    urlTemplate: string,
+    onProgress: TilePackProgress,
+): Promise<ArrayBuffer> {
+    let files: Record<string, Uint8Array> = {
+        [ZIP_METADATA_FILE]: new TextEncoder().encode(
+            JSON.stringify({ [URL_TEMPLATE_METADATA]: urlTemplate }),
+        ),
+    };
+    for (let i = 0; i < tiles.length; i++) {
+        const tile = tiles[i];
+        files[`${tile.z}/${tile.x}/${tile.y}.${getTileFormat(tile.blob)}`] =
+            new Uint8Array(await tile.blob.arrayBuffer());
+        await reportProgress(onProgress, i + 1, tiles.length);
+    }
+    // Tiles are already compressed images, so compressing them again would only waste time
+    return zipSync(files, { level: 0 }).buffer as ArrayBuffer;
+}
+
+/** A tile read from a tile pack */
+type PackTile = {
+    x: number;
+    y: number;
+    z: number;
+    data: Uint8Array;
+    mimeType: string;
+};
+
+/**
+ * Read the URL template of the map source that a tile pack was exported from, or null if the pack was created
+ * elsewhere
+ */
+export async function getTilePackUrlTemplate(
+    app: App,
+    file: TFile,
+): Promise<string | null> {
+    const buffer = await app.vault.readBinary(file);
+    if (getTilePackFormat(file) === 'mbtiles') {
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(new Uint8Array(buffer));
+        try {
+            const result = db.exec(
+                'SELECT value FROM metadata WHERE name = ?',
+                [URL_TEMPLATE_METADATA],
+            );
+            return (result[0]?.values[0]?.[0] as string) ?? null;
+        } catch (e) {
+            return null;
+        } finally {
+            db.close();
+        }
+    } else {
+        const files = unzipSync(new Uint8Array(buffer), {
+            filter: (file) => file.name === ZIP_METADATA_FILE,
+        });
+        const metadata = files[ZIP_METADATA_FILE];
+        if (!metadata) return null;
+        return (
+            JSON.parse(new TextDecoder().decode(metadata))[
+                URL_TEMPLATE_METADATA
+            ] ?? null
+        );
+    }
+}
+
+export function getTilePackFormat(file: TFile): TilePackFormat | null {
+    if (file.extension === 'mbtiles') return 'mbtiles';
+    if (file.extension === 'zip') return 'zip';
+    return null;
+}
+
+/**
+ * Import the tiles of a tile pack into the offline storage, as tiles of the given map source.
+ * @returns The number of tiles imported
+ */
+export async function importTilePack(
+    app: App,
+    file: TFile,
+    urlTemplate: string,
+    skipExisting: boolean,
+    onProgress: TilePackProgress,
+): Promise<number> {
+    const buffer = await app.vault.readBinary(file);
+    const tiles =
+        getTilePackFormat(file) === 'mbtiles'
+            ? await readMbtiles(buffer)
+            : readZip(buffer);
+    if (tiles.length === 0)
+        throw new Error(`${file.name} does not contain any tiles`);
+    let imported = 0;
+    for (let i = 0; i < tiles.length; i++) {
+        const tile = tiles[i];
+        // The storage key is the URL of the tile using the first subdomain, the same as the map tile layer uses
+        const key = getTileUrl(urlTemplate, {
+            x: tile.x,
+            y: tile.y,
+            z: tile.z,
+            s: consts.TILE_SUBDOMAINS[0],
+            // Used by the URL templates of WMS overlays
+            bbox: getWmsBbox,
+        });
+        if (!(skipExisting && (await hasTile(key)))) {
+            await saveTile(
+                {
+                    key,
+                    url: key,
+                    urlTemplate,
+                    x: tile.x,
+                    y: tile.y,
+                    z: tile.z,
+                    createdAt: Date.now(),
+                },
+                new Blob([tile.data as Uint8Array<ArrayBuffer>], {
+                    type: tile.mimeType,
+                }),
+            );
+            imported++;
+        }
+        await reportProgress(onProgress, i + 1, tiles.length);
+    }
+    return imported;
+}
+
+async function readMbtiles(buffer: ArrayBuffer): Promise<PackTile[]> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(new Uint8Array(buffer));
+    let tiles: PackTile[] = [];
+    try {
+        const format = db.exec(
+            "SELECT value FROM metadata WHERE name = 'format'",
+        )[0]?.values[0]?.[0] as string;
+        const mimeType = MIME_TYPES[format] ?? MIME_TYPES.png;
+        const statement = db.prepare(
+            'SELECT zoom_level, tile_column, tile_row, tile_data FROM tiles',
+        );
+        while (statement.step()) {
+            const [z, x, row, data] = statement.get() as [
+                number,
+                number,
+                number,
+                Uint8Array,
+            ];
+            tiles.push({ x, y: Math.pow(2, z) - 1 - row, z, data, mimeType });
+        }
+        statement.free();
+    } catch (e) {
+        throw new Error('This is not a valid MBTiles file');
+    } finally {
+        db.close();
+    }
+    return tiles;
+}
+
+function readZip(buffer: ArrayBuffer): PackTile[] {
+    const files = unzipSync(new Uint8Array(buffer));
+    let tiles: PackTile[] = [];
+    for (const [path, data] of Object.entries(files)) {
+        const match = path.match(ZIP_TILE_PATH);
+        if (match)
+            tiles.push({
+                z: parseInt(match[1]),
+                x: parseInt(match[2]),
+                y: parseInt(match[3]),
+                data,
+                mimeType: MIME_TYPES[match[4].toLowerCase()] ?? MIME_TYPES.png,
+            });
+    }
+    return tiles;
+}
+
+// Report the progress and yield to the UI every 100 tiles
+async function reportProgress(
+    onProgress: TilePackProgress,
+    done: number,
+    total: number,
+) {
+    if (done % 100 === 0 || done === total) {
+        onProgress(done, total);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+}
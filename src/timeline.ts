@@ -0,0 +1,105 @@
+import { App } from 'obsidian';
+import moment from 'moment';
+import { type MapState } from 'src/mapState';
+import { type PluginSettings, DEFAULT_SETTINGS } from 'src/settings';
+import { BaseGeoLayer } from 'src/markers';
+import * as consts from 'src/consts';
+
+/** The full date range of a set of markers, as YYYY-MM-DD strings */
+export type TimelineExtent = {
+    from: string;
+    to: string;
+};
+
+/**
+ * Returns the date of a marker according to the timeline date source of the settings, or null if the marker
+ * has no such date.
+ * All the markers of a file share the same date, since the date is a property of the file.
+ */
+export function getMarkerDate(
+    marker: BaseGeoLayer,
+    settings: PluginSettings,
+    app: App,
+): moment.Moment | null {
+    const source =
+        settings.timelineDateSource ?? DEFAULT_SETTINGS.timelineDateSource;
+    let date: moment.Moment = null;
+    if (source === 'property') {
+        const propertyName =
+            settings.timelineDateProperty ??
+            DEFAULT_SETTINGS.timelineDateProperty;
+        const value = app.metadataCache.getFileCache(marker.file)
+            ?.frontmatter?.[propertyName];
+        if (typeof value === 'string' || typeof value === 'number')
+            date = moment(
+                value.toString(),
+                [moment.ISO_8601, consts.TIMELINE_DATE_FORMAT],
+                true,
+            );
+    } else if (source === 'dailyNote') {
+        date = moment(
+            marker.file.basename,
+            settings.timelineDailyNoteFormat ||
+                DEFAULT_SETTINGS.timelineDailyNoteFormat,
+            true,
+        );
+    } else if (source === 'ctime') {
+        date = moment(marker.file.stat.ctime);
+    }
+    return date?.isValid() ? date : null;
+}
+
+/** Returns whether the state restricts the markers to a time range */
+export function hasTimeRange(state: MapState) {
+    return !!(state.timeFrom || state.timeTo);
+}
+
+/**
+ * Filter markers to the ones whose date is within the time range of the state (including both ends).
+ * If the state has a time range, markers without a date are left out.
+ */
+export function filterMarkersByTime(
+    markers: BaseGeoLayer[],
+    state: MapState,
+    settings: PluginSettings,
+    app: App,
+): BaseGeoLayer[] {
+    if (!hasTimeRange(state)) return markers;
+    const from = state.timeFrom
+        ? moment(state.timeFrom, consts.TIMELINE_DATE_FORMAT)
+        : null;
+    const to = state.timeTo
+        ? moment(state.timeTo, consts.TIMELINE_DATE_FORMAT)
+        : null;
+    return markers.filter((marker) => {
+        const date = getMarkerDate(marker, settings, app);
+        if (!date) return false;
+        if (from && date.isBefore(from, 'day')) return false;
+        if (to && date.isAfter(to, 'day')) return false;
+        return true;
+    });
+}
+
+/**
+ * Returns the earliest and latest dates of the given markers, or null if none of them has a date.
+ * This is used as the range of the timeline slider.
+ */
+export function getTimelineExtent(
+    markers: BaseGeoLayer[],
+    settings: PluginSettings,
+    app: App,
+): TimelineExtent | null {
+    let min: moment.Moment = null;
+    let max: moment.Moment = null;
+    for (const marker of markers) {
+        const date = getMarkerDate(marker, settings, app);
+        if (!date) continue;
+        if (!min || date.isBefore(min)) min = date;
+        if (!max || date.isAfter(max)) max = date;
+    }
+    if (!min) return null;
+    return {
+        from: min.format(consts.TIMELINE_DATE_FORMAT),
+        to: max.format(consts.TIMELINE_DATE_FORMAT),
+    };
+}
@@ -1 +1,6 @@
 declare module 'wildcard';
+
+declare module 'sql.js/dist/sql-asm.js' {
+    import initSqlJs = require('sql.js');
+    export = initSqlJs;
+}
@@ -21,6 +21,7 @@ import * as consts from './consts';
 import * as regex from './regex';
 import { BaseMapView } from './baseMapView';
 import MapViewPlugin from 'src/main';
+import { type PlaceDetails } from 'src/reverseGeocoding';
 
 /**
  * An ordered stack (latest first) of the latest used leaves.
@@ -51,6 +52,8 @@ function resolveJsonPath(json: object, path: string): string | undefined {
 
 export type ExtraLocationData = {
     googleMapsPlaceData?: google.maps.places.PlaceResult;
+    /** Place details from reverse geocoding, used for {{address}}, {{city}} and {{country}} */
+    place?: PlaceDetails;
 };
 
 function replaceJsonPaths(content: string, json: ExtraLocationData) {
@@ -59,7 +62,7 @@ function replaceJsonPaths(content: string, json: ExtraLocationData) {
     // Find patterns to replace that start with an attribute of json
     for (const [key, data] of Object.entries(json)) {
         const regex = new RegExp(`{{${key}\\.(.*?)}}`, 'g');
-        return content.replace(regex, (_, path: string) => {
+        content = content.replace(regex, (_, path: string) => {
             const result = resolveJsonPath(data, path);
             return result ? result : '';
         });
@@ -74,12 +77,16 @@ export function formatWithTemplates(
 ) {
     const datePattern = /{{date:([a-zA-Z\-\/\.\:]*)}}/g;
     const queryPattern = /{{query}}/g;
+    const place = extraLocationData.place;
     let replaced = s
         .replace(datePattern, (_, pattern) => {
             // @ts-ignore
             return moment().format(pattern);
         })
-        .replace(queryPattern, query);
+        .replace(queryPattern, query)
+        .replace(/{{address}}/g, place?.address ?? '')
+        .replace(/{{city}}/g, place?.city ?? '')
+        .replace(/{{country}}/g, place?.country ?? '');
 
     replaced = replaceJsonPaths(replaced, extraLocationData);
 
@@ -265,6 +272,7 @@ export async function verifyOrAddFrontMatterForInline(
  * @param geolocationMatch Regex match info related to the inline geolocation
  * @param newLat The new latitude to set
  * @param newLng The new longitude to set
+ * @returns The geolink text before and after the update, or null if it couldn't be updated
  */
 export async function updateInlineGeolocation(
     app: App,
@@ -273,7 +281,7 @@ export async function updateInlineGeolocation(
     geolocationMatch: RegExpMatchArray,
     newLat: number,
     newLng: number,
-): Promise<void> {
+): Promise<{ oldText: string; newText: string } | null> {
     const content = await app.vault.read(file);
     let groups = geolocationMatch?.groups;
     if (groups) {
@@ -290,13 +298,15 @@ export async function updateInlineGeolocation(
                 'Cannot update inline geolocation:',
                 geolocationMatch[0],
             );
-            return;
+            return null;
         }
         let oldGeolocationText = matchWithoutTags[0];
         let before = content.slice(0, fileLocation);
         let after = content.slice(fileLocation + oldGeolocationText.length);
         await app.vault.modify(file, `${before}${newGeoLocationText}${after}`);
+        return { oldText: oldGeolocationText, newText: newGeoLocationText };
     }
+    return null;
 }
 
 export function replaceFollowActiveNoteQuery(
@@ -503,3 +513,60 @@ export function getTagUnderCursor(
 ): RegExpMatchArray {
     return matchByPosition(line, regex.TAG_NAME_WITH_HEADER, cursorPosition);
 }
+
+/**
+ * Parse a distance string such as '5km', '300m', '2mi' or '1.5' (kilometers by default) into meters.
+ * Returns null if the string is not a valid distance.
+ */
+export function parseDistance(s: string): number | null {
+    const match = s.trim().match(/^([0-9]*\.?[0-9]+)\s*(km|m|mi)?$/i);
+    if (!match) return null;
+    const value = parseFloat(match[1]);
+    switch (match[2]?.toLowerCase()) {
+        case 'm':
+            return value;
+        case 'mi':
+            return value * 1609.344;
+        default:
+            return value * 1000;
+    }
+}
+
+/** Format a distance in meters for display, e.g. '350 m' or '12.40 km' */
+export function formatDistance(meters: number): string {
+    if (meters < 1000) return `${Math.round(meters)} m`;
+    return `${(meters / 1000).toFixed(2)} km`;
+}
+
+/** Format an area in square meters for display, e.g. '800 m²', '2.5 ha' or '12.40 km²' */
+export function formatArea(squareMeters: number): string {
+    if (squareMeters < 10000) return `${Math.round(squareMeters)} m²`;
+    if (squareMeters < 1000000)
+        return `${(squareMeters / 10000).toFixed(2)} ha`;
+    return `${(squareMeters / 1000000).toFixed(2)} km²`;
+}
+
+/**
+ * Calculate the area in square meters of a polygon on the earth's surface.
+ * This uses the spherical approximation also used by Leaflet.draw, which is accurate enough for measurements
+ * on a map.
+ */
+export function geodesicArea(latLngs: leaflet.LatLng[]): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    let area = 0;
+    for (let i = 0; i < latLngs.length; i++) {
+        const p1 = latLngs[i];
+        const p2 = latLngs[(i + 1) % latLngs.length];
+        area +=
+            (toRadians(p2.lng) - toRadians(p1.lng)) *
+            (2 + Math.sin(toRadians(p1.lat)) + Math.sin(toRadians(p2.lat)));
+    }
+    return Math.abs((area * consts.EARTH_RADIUS_METERS ** 2) / 2);
+}
+
+/** Format a duration in seconds for display, e.g. '45 min' or '2 h 5 min' */
+export function formatDuration(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
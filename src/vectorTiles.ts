@@ -0,0 +1,117 @@
+import { App, TFile, Notice, normalizePath } from 'obsidian';
+import * as leaflet from 'leaflet';
+import { leafletLayer, paintRules, labelRules } from 'protomaps-leaflet';
+import { PMTiles, type Source } from 'pmtiles';
+import { namedFlavor, type Flavor } from '@protomaps/basemaps';
+import type { TileSource } from 'src/settings';
+
+const NAMED_FLAVORS = ['light', 'dark', 'white', 'grayscale', 'black'];
+const DEFAULT_LIGHT_STYLE = 'light';
+const DEFAULT_DARK_STYLE = 'dark';
+
+// The layer of protomaps-leaflet extends leaflet.GridLayer, but the library declares it as a plain object type
+type ProtomapsLayer = ReturnType<typeof leafletLayer> & leaflet.GridLayer;
+
+export function isVectorTileSource(source: TileSource) {
+    return source.sourceType === 'vector';
+}
+
+function isRemoteUrl(url: string) {
+    return /^https?:\/\//.test(url);
+}
+
+/**
+ * Create a layer that renders the vector tiles of a map source on the client, using the Protomaps basemap
+ * schema. The URL (or path) of the source is either:
+ * - The URL or vault path of a PMTiles archive.
+ * - A `{z}/{x}/{y}` URL template of MVT tiles.
+ * Dark mode is done by rendering with the dark style of the source rather than by inverting the colors.
+ */
+export function createVectorTileLayer(
+    app: App,
+    source: TileSource,
+    url: string,
+    isDark: boolean,
+    options: leaflet.GridLayerOptions,
+): leaflet.GridLayer {
+    const style = isDark
+        ? source.styleDark || DEFAULT_DARK_STYLE
+        : source.styleLight || DEFAULT_LIGHT_STYLE;
+    const defaultStyle = isDark ? DEFAULT_DARK_STYLE : DEFAULT_LIGHT_STYLE;
+    const archive = isRemoteUrl(url)
+        ? url
+        : new PMTiles(new VaultSource(app, normalizePath(url)));
+    let layer: ProtomapsLayer = null;
+    // The layer waits for its tasks before rendering tiles, so the style can be loaded from the vault
+    const loadStyle = loadFlavor(app, style, defaultStyle).then((flavor) => {
+        layer.paintRules = paintRules(flavor);
+        layer.labelRules = labelRules(flavor, 'en');
+        layer.backgroundColor = flavor.background;
+        layer.clearLayout();
+        return { status: 'fulfilled', reason: null as Error };
+    });
+    layer = leafletLayer({
+        ...options,
+        url: archive,
+        tasks: [loadStyle],
+    }) as ProtomapsLayer;
+    return layer;
+}
+
+/**
+ * A style is either the name of a Protomaps flavor, or the vault path of a JSON file with colors that override
+ * those of the default flavor, e.g. `{"water": "#80c0ff"}`.
+ * If the style cannot be used, the user is notified and the default flavor is used.
+ */
+async function loadFlavor(
+    app: App,
+    style: string,
+    defaultStyle: string,
+): Promise<Flavor> {
+    if (NAMED_FLAVORS.includes(style)) return namedFlavor(style);
+    const defaultFlavor = namedFlavor(defaultStyle);
+    try {
+        const file = app.vault.getAbstractFileByPath(normalizePath(style));
+        if (!(file instanceof TFile))
+            throw new Error('it is neither a style name nor a file');
+        const colors = JSON.parse(await app.vault.read(file));
+        return { ...defaultFlavor, ...colors };
+    } catch (e) {
+        new Notice(`Map View: cannot use the style ${style}: ${e.message}`);
+        return defaultFlavor;
+    }
+}
+
+/**
+ * Reads a PMTiles archive from the vault. The archive is read into memory on first use, since the vault API
+ * cannot read parts of files on all platforms.
+ */
+class VaultSource implements Source {
+    private app: App;
+    private path: string;
+    private data: Promise<ArrayBuffer> = null;
+
+    constructor(app: App, path: string) {
+        this.app = app;
+        this.path = path;
+    }
+
+    getKey() {
+        return this.path;
+    }
+
+    async getBytes(offset: number, length: number) {
+        if (!this.data) this.data = this.readFile();
+        const data = await this.data;
+        return { data: data.slice(offset, offset + length) };
+    }
+
+    private async readFile() {
+        const file = this.app.vault.getAbstractFileByPath(this.path);
+        if (!(file instanceof TFile)) {
+            new Notice(`Map View: cannot find ${this.path}`);
+            throw new Error(`${this.path} does not exist`);
+        }
+        return await this.app.vault.readBinary(file);
+    }
+}
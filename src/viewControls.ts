@@ -7,10 +7,14 @@ import { MapContainer, type ViewSettings } from 'src/mapContainer';
 import MapViewPlugin from 'src/main';
 import { LocationSearchDialog, SuggestInfo } from 'src/locationSearchDialog';
 import { FileMarker, type MarkersMap } from 'src/markers';
+import { MeasureTool } from 'src/measure';
+import { type SelectionMode, SelectionTool } from 'src/selection';
+import * as utils from 'src/utils';
 
 import * as leaflet from 'leaflet';
 import { mount, unmount } from 'svelte';
 import ViewControlsPanel from './components/ViewControlsPanel.svelte';
+import MarkerListPanel from './components/MarkerListPanel.svelte';
 
 export class ViewControls {
     private parentElement: HTMLElement;
@@ -21,6 +25,7 @@ export class ViewControls {
     private plugin: MapViewPlugin;
 
     private controlPanel: any;
+    private markerListPanel: any;
 
     constructor(
         parentElement: HTMLElement,
@@ -42,6 +47,10 @@ export class ViewControls {
         if (this.controlPanel) {
             unmount(this.controlPanel);
         }
+        if (this.markerListPanel) {
+            unmount(this.markerListPanel);
+            this.markerListPanel = null;
+        }
         this.createControls();
     }
 
@@ -56,11 +65,24 @@ export class ViewControls {
                 viewSettings: this.viewSettings,
             },
         });
+        if (this.viewSettings.showMarkerList)
+            this.markerListPanel = mount(MarkerListPanel, {
+                target: this.parentElement,
+                props: {
+                    plugin: this.plugin,
+                    settings: this.settings,
+                    view: this.view,
+                },
+            });
     }
 
     public updateControlsToState() {
         if (this.controlPanel) this.controlPanel.updateControlsToState();
     }
+
+    public updateMarkerList() {
+        if (this.markerListPanel) this.markerListPanel.refresh();
+    }
 }
 
 export class SearchControl extends leaflet.Control {
@@ -258,3 +280,147 @@ export class LockControl extends leaflet.Control {
         else this.lockButton.removeClass('on');
     }
 }
+
+export class MeasureControl extends leaflet.Control {
+    view: MapContainer;
+    measureButton: HTMLAnchorElement;
+    panel: HTMLDivElement;
+    readout: HTMLDivElement;
+    areaToggle: HTMLInputElement;
+
+    constructor(options: any, view: MapContainer) {
+        super(options);
+        this.view = view;
+    }
+
+    onAdd(map: leaflet.Map) {
+        const div = leaflet.DomUtil.create('div', 'leaflet-control');
+        // Clicks on the control should not reach the map, where they would add measurement points
+        leaflet.DomEvent.disableClickPropagation(div);
+        const buttonDiv = div.createDiv('leaflet-bar');
+        this.measureButton = buttonDiv.createEl('a', 'mv-icon-button');
+        this.measureButton.title = 'Measure distances and areas';
+        this.measureButton.appendChild(getIcon('ruler'));
+        this.measureButton.addEventListener('click', (ev: MouseEvent) => {
+            if (this.view.display.measureTool.active) this.view.stopMeasure();
+            else this.view.startMeasure();
+        });
+
+        this.panel = div.createDiv('leaflet-bar mv-measure-panel');
+        this.readout = this.panel.createDiv();
+        const areaLabel = this.panel.createEl('label');
+        this.areaToggle = areaLabel.createEl('input', { type: 'checkbox' });
+        areaLabel.appendText(' Area');
+        this.areaToggle.addEventListener('change', () => {
+            this.view.display.measureTool.setArea(this.areaToggle.checked);
+        });
+        const buttons = this.panel.createDiv('mv-measure-buttons');
+        const undoButton = buttons.createEl('button', { text: 'Undo' });
+        undoButton.addEventListener('click', () =>
+            this.view.display.measureTool.removeLastPoint(),
+        );
+        const saveButton = buttons.createEl('button', { text: 'Save to note' });
+        saveButton.title =
+            'Add the measured shape to the last active note as an inline path or area';
+        saveButton.addEventListener('click', () =>
+            this.view.saveMeasurementToNote(),
+        );
+        const doneButton = buttons.createEl('button', { text: 'Done' });
+        doneButton.addEventListener('click', () => this.view.stopMeasure());
+        this.update(this.view.display.measureTool);
+
+        return div;
+    }
+
+    /** Update the control to show the current measurement of the tool */
+    update(tool: MeasureTool) {
+        if (!this.panel) return;
+        if (tool.active) this.measureButton.addClass('on');
+        else this.measureButton.removeClass('on');
+        this.panel.style.display = tool.active ? '' : 'none';
+        this.areaToggle.checked = tool.isArea;
+        if (tool.numPoints < 2) {
+            this.readout.setText('Click on the map to measure');
+            return;
+        }
+        const area = tool.getArea();
+        this.readout.setText(
+            area !== null
+                ? `Perimeter: ${utils.formatDistance(tool.getDistance())}, area: ${utils.formatArea(area)}`
+                : `Distance: ${utils.formatDistance(tool.getDistance())}`,
+        );
+    }
+}
+
+export class SelectControl extends leaflet.Control {
+    view: MapContainer;
+    selectButton: HTMLAnchorElement;
+    panel: HTMLDivElement;
+    readout: HTMLDivElement;
+    modeDropdown: HTMLSelectElement;
+    actionsButton: HTMLButtonElement;
+
+    constructor(options: any, view: MapContainer) {
+        super(options);
+        this.view = view;
+    }
+
+    onAdd(map: leaflet.Map) {
+        const div = leaflet.DomUtil.create('div', 'leaflet-control');
+        // Clicks and drags on the control should not reach the map, where they would change the selection
+        leaflet.DomEvent.disableClickPropagation(div);
+        const buttonDiv = div.createDiv('leaflet-bar');
+        this.selectButton = buttonDiv.createEl('a', 'mv-icon-button');
+        this.selectButton.title = 'Select markers';
+        this.selectButton.appendChild(getIcon('lasso'));
+        this.selectButton.addEventListener('click', (ev: MouseEvent) => {
+            if (this.view.display.selectionTool.active)
+                this.view.stopSelection();
+            else this.view.startSelection();
+        });
+
+        this.panel = div.createDiv('leaflet-bar mv-select-panel');
+        this.modeDropdown = this.panel.createEl('select', 'dropdown');
+        this.modeDropdown.createEl('option', {
+            value: 'rectangle',
+            text: 'Rectangle',
+        });
+        this.modeDropdown.createEl('option', { value: 'lasso', text: 'Lasso' });
+        this.modeDropdown.addEventListener('change', () => {
+            this.view.display.selectionTool.setMode(
+                this.modeDropdown.value as SelectionMode,
+            );
+        });
+        this.readout = this.panel.createDiv();
+        const buttons = this.panel.createDiv('mv-select-buttons');
+        this.actionsButton = buttons.createEl('button', { text: 'Actions' });
+        this.actionsButton.addEventListener('click', () =>
+            this.view.openSelectionDialog(),
+        );
+        const clearButton = buttons.createEl('button', { text: 'Clear' });
+        clearButton.addEventListener('click', () =>
+            this.view.display.selectionTool.clear(),
+        );
+        const doneButton = buttons.createEl('button', { text: 'Done' });
+        doneButton.addEventListener('click', () => this.view.stopSelection());
+        this.update(this.view.display.selectionTool);
+
+        return div;
+    }
+
+    /** Update the control to show the current selection of the tool */
+    update(tool: SelectionTool) {
+        if (!this.panel) return;
+        if (tool.active) this.selectButton.addClass('on');
+        else this.selectButton.removeClass('on');
+        this.panel.style.display = tool.active ? '' : 'none';
+        this.modeDropdown.value = tool.mode;
+        const count = tool.selected.length;
+        this.readout.setText(
+            count > 0
+                ? `${count} markers selected`
+                : 'Drag on the map to select markers, Shift+drag to add',
+        );
+        this.actionsButton.disabled = count === 0;
+    }
+}